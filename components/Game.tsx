@@ -4,12 +4,22 @@
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { GameEngine } from '@/lib/game/GameEngine';
+import { WORLD_HEIGHT, WORLD_WIDTH } from '@/lib/game/world';
+import { FrameInput, GAME_ACTIONS, GameAction, GameEventType, GameMode, TOUCH_CONTROL_SCHEMES, TouchControlScheme } from '@/lib/game/types';
 import { GameCanvas } from './GameCanvas';
 import { WelcomeScreen } from './WelcomeScreen';
 import { WalletButton } from './WalletButton';
+import { ReplayViewer } from './ReplayViewer';
+import { LeaderboardModal } from './LeaderboardModal';
 import { achievementManager } from '@/lib/achievements/AchievementManager';
 import { settingsManager } from '@/lib/settings/SettingsManager';
+import { formatKey, inputManager } from '@/lib/input/InputManager';
+import { gamepadManager } from '@/lib/input/GamepadManager';
+import { touchControls } from '@/lib/input/TouchControls';
+import { DIFFICULTY_LABELS } from '@/lib/game/Difficulty';
 import { leaderboardManager } from '@/lib/leaderboard/LeaderboardManager';
+import { replayManager } from '@/lib/replay/ReplayManager';
+import { RunRecording } from '@/lib/game/InputLog';
 import { soundManager } from '@/lib/audio/SoundManager';
 import { walletManager } from '@/lib/blockchain/wallet';
 import { nftManager } from '@/lib/blockchain/nft';
@@ -17,18 +27,33 @@ import { getNFTContractAddress, ACHIEVEMENT_NFT_ABI } from '@/lib/blockchain/con
 import { PinataManager } from '@/lib/ipfs/pinata';
 import html2canvas from 'html2canvas';
 
-const CANVAS_WIDTH = 800;
-const CANVAS_HEIGHT = 600;
+const ACTION_LABELS: Record<GameAction, string> = {
+  up: '⬆️ Move Up',
+  down: '⬇️ Move Down',
+  left: '⬅️ Move Left (free movement)',
+  right: '➡️ Move Right / Shoot',
+  shoot: '🔫 Shoot',
+  charge: '⚡ Charge Shot (hold)',
+  bomb: '💣 Smart Bomb',
+  pause: '⏸️ Pause',
+  confirm: '✅ Confirm (menus)',
+};
+
+const TOUCH_SCHEME_LABELS: Record<TouchControlScheme, string> = {
+  buttons: '🔘 Buttons',
+  drag: '👆 Drag',
+  joystick: '🕹️ Joystick',
+};
 
-// Mobile responsive dimensions - Support both portrait and landscape
+// Displayed canvas size - fits the world's aspect ratio on mobile, in portrait and landscape
 const getMobileDimensions = () => {
-  if (typeof window === 'undefined') return { width: CANVAS_WIDTH, height: CANVAS_HEIGHT };
+  if (typeof window === 'undefined') return { width: WORLD_WIDTH, height: WORLD_HEIGHT };
   
   const isMobile = window.innerWidth < 1024;
   const isPortrait = window.innerHeight > window.innerWidth;
   
   if (isMobile) {
-    const aspectRatio = CANVAS_WIDTH / CANVAS_HEIGHT;
+    const aspectRatio = WORLD_WIDTH / WORLD_HEIGHT;
     
     if (isPortrait) {
       // Portrait mode: use full width, adjust height
@@ -61,7 +86,7 @@ const getMobileDimensions = () => {
     }
   }
   
-  return { width: CANVAS_WIDTH, height: CANVAS_HEIGHT };
+  return { width: WORLD_WIDTH, height: WORLD_HEIGHT };
 };
 
 export const Game: React.FC = () => {
@@ -74,10 +99,17 @@ export const Game: React.FC = () => {
   const [mintableAchievements, setMintableAchievements] = useState<any[]>([]);
   const [showShareModal, setShowShareModal] = useState(false);
   const [shareImageUrl, setShareImageUrl] = useState<string | null>(null);
+  const [showReplays, setShowReplays] = useState(false);
+  const [replayRecording, setReplayRecording] = useState<RunRecording | null>(null);
+  const [scoreVerification, setScoreVerification] = useState<'pending' | 'verified' | 'offline' | 'unauthenticated' | 'rejected' | null>(null);
   const gameOverRef = useRef<HTMLDivElement>(null);
-  const [gameEngine] = useState(() => new GameEngine(CANVAS_WIDTH, CANVAS_HEIGHT));
-  const [keys, setKeys] = useState<Set<string>>(new Set());
+  const [continueDeclined, setContinueDeclined] = useState(false);
+  const [gameEngine] = useState(() => new GameEngine());
+  const [, setRenderCount] = useState(0);
+  const forceRender = useCallback(() => setRenderCount((prev) => prev + 1), []);
+  const [rebindingAction, setRebindingAction] = useState<GameAction | null>(null);
   const gameEngineRef = useRef(gameEngine);
+  const runSeedTokenRef = useRef<string | null>(null); // Proves the current run's seed was issued to the signed-in wallet
   const [highScore, setHighScore] = useState<number>(0);
   const [isNewHighScore, setIsNewHighScore] = useState(false);
   const [screenShake, setScreenShake] = useState({ x: 0, y: 0, intensity: 0 });
@@ -90,7 +122,7 @@ export const Game: React.FC = () => {
   const [walletAddress, setWalletAddress] = useState<string | null>(null);
   const [mintingNFT, setMintingNFT] = useState<string | null>(null); // achievementId being minted
   const fpsRef = useRef({ frames: 0, lastTime: Date.now() });
-  const [canvasDimensions, setCanvasDimensions] = useState({ width: CANVAS_WIDTH, height: CANVAS_HEIGHT });
+  const [canvasDimensions, setCanvasDimensions] = useState({ width: WORLD_WIDTH, height: WORLD_HEIGHT });
   const [isPortrait, setIsPortrait] = useState(false);
 
   // Initialize game systems
@@ -130,11 +162,6 @@ export const Game: React.FC = () => {
         }
       });
       
-      // Track power-up collections
-      (gameEngine as any).onPowerUpCollected = () => {
-        setPowerUpsCollected(prev => prev + 1);
-      };
-
       // Configure NFT manager if contract address is set
       const contractAddress = getNFTContractAddress();
       if (contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000') {
@@ -169,7 +196,7 @@ export const Game: React.FC = () => {
           enemiesKilled: gameEngine.gameState.enemiesKilled,
           bulletsShot: gameEngine.gameState.bulletsShot,
           bulletsHit: gameEngine.gameState.bulletsHit,
-          gameStartTime: gameEngine.gameState.gameStartTime,
+          timePlayed: gameEngine.clock.now() - gameEngine.gameState.gameStartTime,
           powerUpsCollected: powerUpsCollected,
         };
         achievementManager.checkAchievements(gameEngine.gameState, stats);
@@ -179,9 +206,15 @@ export const Game: React.FC = () => {
     return () => clearInterval(interval);
   }, [powerUpsCollected]);
 
+  // The run is over once the game ends without a continue left, or the player turns the continue down
+  const runEnded = gameEngine.gameState.isGameOver && (continueDeclined || !gameEngine.canContinue());
+
+  // Drag and joystick touch schemes steer on the canvas instead
+  const movementButtons = settingsManager.getSetting('touchControls') === 'buttons';
+
   // Check for new high score when game ends
   useEffect(() => {
-    if (gameEngine.gameState.isGameOver) {
+    if (runEnded) {
       const currentScore = gameEngine.gameState.score;
       if (currentScore > highScore) {
         setHighScore(currentScore);
@@ -193,40 +226,61 @@ export const Game: React.FC = () => {
         setIsNewHighScore(false);
       }
     }
-  }, [gameEngine.gameState.isGameOver, gameEngine.gameState.score, highScore]);
+  }, [runEnded, gameEngine.gameState.score, highScore]);
+
+  // Store the finished run so it can be replayed, and submit it for verification
+  useEffect(() => {
+    if (runEnded && gameEngine.inputLog.length > 0) {
+      const recording = gameEngine.getRecording();
+      replayManager.saveRun(recording);
+
+      setScoreVerification('pending');
+      const { score, level, wave, enemiesKilled, bulletsShot, bulletsHit } = gameEngine.gameState;
+      const entry = {
+        address: walletAddress ? walletAddress.toLowerCase() : null,
+        mode: gameEngine.mode,
+        difficulty: gameEngine.difficulty,
+        score,
+        level,
+        wave,
+        enemiesKilled,
+        accuracy: bulletsShot > 0 ? Math.round((bulletsHit / bulletsShot) * 100) : 0,
+        continues: gameEngine.gameState.continues,
+      };
+      leaderboardManager.submitRun(recording, entry, runSeedTokenRef.current).then((result) => {
+        setScoreVerification(result.status);
+      });
+    }
+  }, [runEnded]);
+
+  // Open the replay viewer, pausing a run in progress
+  const handleWatchReplay = useCallback((recording: RunRecording | null) => {
+    if (!recording) return;
+    if (!gameEngine.gameState.isGameOver) {
+      gameEngine.gameState.isPaused = true;
+    }
+    setShowReplays(false);
+    setReplayRecording(recording);
+  }, [gameEngine]);
 
   // Update ref when game engine changes
   useEffect(() => {
     gameEngineRef.current = gameEngine;
   }, [gameEngine]);
 
-  // Keyboard controls
+  // Route simulation events to audio and stats tracking
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'ArrowUp' || e.key === 'ArrowDown' || e.key === 'ArrowRight') {
-        e.preventDefault();
-        setKeys((prev) => new Set(prev).add(e.key));
-      }
-    };
-
-    const handleKeyUp = (e: KeyboardEvent) => {
-      if (e.key === 'ArrowUp' || e.key === 'ArrowDown' || e.key === 'ArrowRight') {
-        setKeys((prev) => {
-          const newKeys = new Set(prev);
-          newKeys.delete(e.key);
-          return newKeys;
-        });
+    return gameEngine.onEvent((event) => {
+      soundManager.handleGameEvent(event);
+      if (event.type === GameEventType.POWER_UP_COLLECTED) {
+        setPowerUpsCollected(prev => prev + 1);
+      } else if (event.type === GameEventType.PLAYER_DAMAGED) {
+        gamepadManager.rumble(0.5, 150);
+      } else if (event.type === GameEventType.LIFE_LOST) {
+        gamepadManager.rumble(1, 400);
       }
-    };
-
-    window.addEventListener('keydown', handleKeyDown);
-    window.addEventListener('keyup', handleKeyUp);
-
-    return () => {
-      window.removeEventListener('keydown', handleKeyDown);
-      window.removeEventListener('keyup', handleKeyUp);
-    };
-  }, []);
+    });
+  }, [gameEngine]);
 
   // Handle orientation and responsive sizing
   useEffect(() => {
@@ -235,13 +289,8 @@ export const Game: React.FC = () => {
       const isPortraitMode = window.innerHeight > window.innerWidth;
       setIsPortrait(isMobile && isPortraitMode);
       
-      const dims = getMobileDimensions();
-      setCanvasDimensions(dims);
-      // Update game engine canvas size
-      if (gameEngine) {
-        gameEngine.canvasWidth = dims.width;
-        gameEngine.canvasHeight = dims.height;
-      }
+      // Only the displayed size changes - the game world stays WORLD_WIDTH x WORLD_HEIGHT
+      setCanvasDimensions(getMobileDimensions());
     };
 
     updateDimensions();
@@ -252,111 +301,109 @@ export const Game: React.FC = () => {
       window.removeEventListener('resize', updateDimensions);
       window.removeEventListener('orientationchange', updateDimensions);
     };
-  }, [gameEngine]);
-
-  // Handle player movement and shooting
-  useEffect(() => {
-    const interval = setInterval(() => {
-      const engine = gameEngineRef.current;
-      if (engine.gameState.isGameOver || engine.gameState.isPaused) {
-        return;
-      }
+  }, []);
 
-      // Movement
-      if (keys.has('ArrowUp')) {
-        engine.base.moveUp(CANVAS_HEIGHT, engine.baseSpeedMultiplier);
-      }
-      if (keys.has('ArrowDown')) {
-        engine.base.moveDown(CANVAS_HEIGHT, engine.baseSpeedMultiplier);
-      }
+  // Input from every source, sampled by the game loop every simulation tick. Touch steering depends on
+  // where the base is, so it is worked out fresh each tick
+  const getFrameInput = useCallback((): FrameInput => {
+    touchControls.steer(gameEngine.base.getCenter(), gameEngine.movement);
+    return inputManager.getFrameInput(gameEngine.movement);
+  }, [gameEngine]);
 
-      // Shooting (handled separately to avoid rapid fire)
-    }, 16); // ~60fps
+  // Mobile controls - each tap is one tick of input
+  const handleMoveUp = useCallback(() => {
+    inputManager.tap('up');
+  }, []);
 
-    return () => clearInterval(interval);
-  }, [keys]);
+  const handleMoveLeft = useCallback(() => {
+    inputManager.tap('left');
+  }, []);
 
-  // Handle shooting with ArrowRight - uses shootCooldownMultiplier for rapid fire
-  useEffect(() => {
-    let shootInterval: NodeJS.Timeout;
-    let lastShootTime = 0;
-    const BASE_COOLDOWN = 1500;
-    
-    if (keys.has('ArrowRight')) {
-      const engine = gameEngineRef.current;
-      if (!engine.gameState.isGameOver && !engine.gameState.isPaused) {
-        engine.shoot();
-        lastShootTime = Date.now();
-      }
-      
-      // Use a fast interval that checks cooldown dynamically (so it responds to multiplier changes)
-        shootInterval = setInterval(() => {
-        const engine = gameEngineRef.current;
-        const now = Date.now();
-        // Calculate cooldown using current multiplier (updates when power-up is collected)
-        const cooldown = BASE_COOLDOWN * engine.shootCooldownMultiplier;
-        
-        if (
-          keys.has('ArrowRight') && 
-          !engine.gameState.isGameOver && 
-          !engine.gameState.isPaused &&
-          now - lastShootTime >= cooldown
-        ) {
-            engine.shoot();
-          lastShootTime = now;
-          }
-      }, 50); // Check every 50ms for responsive shooting
-    }
+  const handleMoveRight = useCallback(() => {
+    inputManager.tap('right');
+  }, []);
 
-    return () => {
-      if (shootInterval) {
-        clearInterval(shootInterval);
-      }
-    };
-  }, [keys]);
+  const handleMoveDown = useCallback(() => {
+    inputManager.tap('down');
+  }, []);
 
-  // Mobile controls
-  const handleMoveUp = useCallback(() => {
-    gameEngine.base.moveUp(CANVAS_HEIGHT, gameEngine.baseSpeedMultiplier);
-  }, [gameEngine]);
+  const handleShoot = useCallback(() => {
+    inputManager.tap('shoot');
+  }, []);
 
-  const handleMoveDown = useCallback(() => {
-    gameEngine.base.moveDown(CANVAS_HEIGHT, gameEngine.baseSpeedMultiplier);
-  }, [gameEngine]);
+  // Mobile charge button, held for as long as it is touched
+  const handleChargeStart = useCallback(() => {
+    inputManager.setHeld('touch', 'charge', true);
+  }, []);
 
-  const lastShootTimeRef = useRef<number>(0);
-  const BASE_SHOOT_COOLDOWN = 1500; 
+  const handleChargeEnd = useCallback(() => {
+    inputManager.setHeld('touch', 'charge', false);
+  }, []);
 
-  const handleShoot = useCallback(() => {
-    const now = Date.now();
-    // Use shootCooldownMultiplier for rapid fire power-up
-    const cooldown = BASE_SHOOT_COOLDOWN * gameEngine.shootCooldownMultiplier;
-    if (
-      !gameEngine.gameState.isGameOver && 
-      !gameEngine.gameState.isPaused &&
-      now - lastShootTimeRef.current >= cooldown
-    ) {
-      lastShootTimeRef.current = now;
-      gameEngine.shoot();
-    }
-  }, [gameEngine]);
+  const handleBomb = useCallback(() => {
+    inputManager.tap('bomb');
+  }, []);
 
   const [resetKey, setResetKey] = useState(0);
   
-  const handleReset = useCallback(() => {
-    gameEngine.reset();
+  const handleReset = useCallback(async () => {
+    const issued = await leaderboardManager.requestRunSeed();
+    runSeedTokenRef.current = issued?.token ?? null;
+    gameEngine.reset(issued?.seed);
+    setContinueDeclined(false);
     setIsNewHighScore(false);
+    setScoreVerification(null);
     // Force re-render by updating key
     setResetKey(prev => prev + 1);
-    // Force keys state update to trigger re-render
-    setKeys(new Set());
+    // Release anything held into the previous run
+    inputManager.clear();
   }, [gameEngine]);
 
+  // Spend a continue and restart the level from its checkpoint
+  const handleContinue = useCallback(() => {
+    gameEngine.continueRun();
+    forceRender();
+  }, [gameEngine, forceRender]);
+
   const handlePause = useCallback(() => {
     gameEngine.gameState.isPaused = !gameEngine.gameState.isPaused;
-    // Force re-render
-    setKeys((prev) => new Set(prev));
-  }, [gameEngine]);
+    forceRender();
+  }, [gameEngine, forceRender]);
+
+  // Keyboard input through the input manager - re-render as input changes
+  useEffect(() => {
+    const detachKeyboard = inputManager.attachKeyboard(window);
+    const unsubscribeChange = inputManager.onChange(forceRender);
+    return () => {
+      detachKeyboard();
+      unsubscribeChange();
+    };
+  }, [forceRender]);
+
+  // Pause on the pause action - only while a run is on screen, not from a menu, settings or a replay,
+  // which would otherwise leave the next run starting paused
+  const runOnScreen = !showWelcome && !showTutorial && !showSettings && !replayRecording;
+  useEffect(() => {
+    return inputManager.onPress((action) => {
+      if (action === 'pause' && runOnScreen && !gameEngine.gameState.isGameOver) {
+        handlePause();
+      }
+    });
+  }, [gameEngine, runOnScreen, handlePause]);
+
+  // Rebind an action to the next key pressed
+  const handleRebind = useCallback((action: GameAction) => {
+    setRebindingAction(action);
+    inputManager.captureKey((key) => {
+      if (key) {
+        inputManager.rebind(action, key);
+      }
+      setRebindingAction(null);
+    });
+  }, []);
+
+  // Readable keys bound to an action, for control hints
+  const keyLabel = (action: GameAction): string => inputManager.getBindings()[action].map(formatKey).join(' / ') || 'Unbound';
 
   // Level transition animation
   useEffect(() => {
@@ -497,7 +544,7 @@ export const Game: React.FC = () => {
   const healthPercent = (gameEngine.gameState.playerHealth / gameEngine.gameState.maxPlayerHealth) * 100;
   const levelTimeRemaining = Math.max(
     0,
-    Math.ceil((gameEngine.gameState.levelDuration - (Date.now() - gameEngine.gameState.levelStartTime)) / 1000)
+    Math.ceil((gameEngine.gameState.levelDuration - gameEngine.gameState.levelElapsed) / 1000)
   );
 
 
@@ -518,26 +565,66 @@ export const Game: React.FC = () => {
     }
   }, []);
 
+  // Start a new run from the welcome screen
+  const handlePlayGame = useCallback(async (mode: GameMode) => {
+    await handleUserInteraction();
+    const issued = await leaderboardManager.requestRunSeed();
+    runSeedTokenRef.current = issued?.token ?? null;
+    gameEngine.reset(
+      issued?.seed,
+      mode,
+      settingsManager.getSetting('difficulty'),
+      settingsManager.getSetting('movementMode')
+    );
+    const settings = settingsManager.getSettings();
+    if (settings.showFPS) {
+      // FPS counter will be shown
+    }
+    setShowWelcome(false);
+    // Check if first time - show tutorial
+    const hasPlayedBefore = localStorage.getItem('base-shooter-has-played');
+    if (!hasPlayedBefore) {
+      setShowTutorial(true);
+      localStorage.setItem('base-shooter-has-played', 'true');
+    }
+  }, [gameEngine, handleUserInteraction]);
+
+  // Gamepad polling - pause if the controller drops out mid-run
+  useEffect(() => {
+    const stopGamepad = gamepadManager.start(window);
+    const unsubscribeConnection = gamepadManager.onConnectionChange((connected) => {
+      const { isPaused, isGameOver } = gameEngine.gameState;
+      if (!connected && !showWelcome && !isPaused && !isGameOver) {
+        gameEngine.gameState.isPaused = true;
+      }
+      forceRender();
+    });
+    return () => {
+      stopGamepad();
+      unsubscribeConnection();
+    };
+  }, [gameEngine, forceRender, showWelcome]);
+
+  // Confirm (Enter or the A button) accepts whichever menu screen is showing - the welcome screen
+  // handles its own, starting the mode focused there
+  useEffect(() => {
+    return inputManager.onPress((action) => {
+      if (action !== 'confirm' || showSettings || showWelcome) return;
+      if (showTutorial) {
+        setShowTutorial(false);
+      } else if (runEnded) {
+        handleReset();
+      } else if (gameEngine.gameState.isGameOver) {
+        handleContinue();
+      } else if (gameEngine.gameState.isPaused) {
+        handlePause();
+      }
+    });
+  }, [gameEngine, showWelcome, showTutorial, showSettings, runEnded, handleReset, handleContinue, handlePause]);
+
   // Show welcome screen first
   if (showWelcome) {
-    return (
-      <WelcomeScreen
-        onPlayGame={async () => {
-          await handleUserInteraction();
-          const settings = settingsManager.getSettings();
-          if (settings.showFPS) {
-            // FPS counter will be shown
-          }
-          setShowWelcome(false);
-          // Check if first time - show tutorial
-          const hasPlayedBefore = localStorage.getItem('base-shooter-has-played');
-          if (!hasPlayedBefore) {
-            setShowTutorial(true);
-            localStorage.setItem('base-shooter-has-played', 'true');
-          }
-        }}
-      />
-    );
+    return <WelcomeScreen onPlayGame={handlePlayGame} />;
   }
 
   // Show tutorial
@@ -550,9 +637,13 @@ export const Game: React.FC = () => {
             <div className="bg-gray-700 p-4 rounded-lg">
               <h3 className="font-bold text-lg mb-2">🎮 Controls</h3>
               <ul className="list-disc list-inside space-y-1 text-gray-300">
-                <li><strong>Arrow Up/Down:</strong> Move Base vertically</li>
-                <li><strong>Arrow Right:</strong> Shoot bullets</li>
-                <li><strong>Space:</strong> Pause game</li>
+                <li><strong>{keyLabel('up')} · {keyLabel('down')}:</strong> Move Base vertically</li>
+                <li><strong>{gameEngine.movement === 'free' ? keyLabel('shoot') : `${keyLabel('shoot')} · ${keyLabel('right')}`}:</strong> Shoot bullets</li>
+                {gameEngine.movement === 'free' && (
+                  <li><strong>{keyLabel('left')} · {keyLabel('right')}:</strong> Fly left and right</li>
+                )}
+                <li><strong>Hold {keyLabel('charge')}:</strong> Charge a shot · <strong>{keyLabel('bomb')}:</strong> Smart bomb</li>
+                <li><strong>{keyLabel('pause')}:</strong> Pause game · remap keys in ⚙️ Settings</li>
               </ul>
             </div>
             <div className="bg-gray-700 p-4 rounded-lg">
@@ -645,6 +736,10 @@ export const Game: React.FC = () => {
               </div>
                 <span className="text-sm whitespace-nowrap">{gameEngine.gameState.playerHealth}/{gameEngine.gameState.maxPlayerHealth}</span>
             </div>
+              <div className="text-sm mt-2">
+                <span className="text-gray-400">Lives: </span>
+                <span>{'❤️'.repeat(gameEngine.gameState.lives)}</span>
+              </div>
             </div>
             
             <div className="grid grid-cols-2 gap-2">
@@ -697,6 +792,16 @@ export const Game: React.FC = () => {
             >
               📊 Leaderboard
             </button>
+            <button
+              onClick={async () => {
+                await handleUserInteraction();
+                setShowReplays(true);
+              }}
+              className="w-full px-3 py-2 bg-teal-600 hover:bg-teal-700 rounded-lg transition-colors text-sm"
+              title="Replays"
+            >
+              🎬 Replays
+            </button>
           </div>
 
           {/* Game Stats */}
@@ -706,12 +811,41 @@ export const Game: React.FC = () => {
               <span className="text-lg font-bold">{gameEngine.gameState.score.toLocaleString()}</span>
             </div>
             <div>
-              <span className="text-sm text-gray-400">Level: </span>
-              <span className="text-lg font-bold">{gameEngine.gameState.level}</span>
+              {gameEngine.gameState.wave > 0 ? (
+                <>
+                  <span className="text-sm text-gray-400">Wave: </span>
+                  <span className="text-lg font-bold text-red-400">{gameEngine.gameState.wave}</span>
+                </>
+              ) : (
+                <>
+                  <span className="text-sm text-gray-400">Level: </span>
+                  <span className="text-lg font-bold">{gameEngine.gameState.level}</span>
+                </>
+              )}
             </div>
             <div>
               <span className="text-sm text-gray-400">Time: </span>
-              <span className="text-lg font-bold">{levelTimeRemaining}s</span>
+              {gameEngine.boss ? (
+                <span className="text-lg font-bold text-red-400">⚔️ BOSS</span>
+              ) : (
+                <span className="text-lg font-bold">{levelTimeRemaining}s</span>
+              )}
+            </div>
+            <div>
+              <span className="text-sm text-gray-400">Weapon: </span>
+              <span className="text-lg font-bold">
+                {gameEngine.weapon.icon} {gameEngine.weapon.name}
+              </span>
+              <span className="text-sm text-yellow-400"> Lv {gameEngine.weapon.level}</span>
+              {gameEngine.weapon.killsToNextLevel > 0 && (
+                <div className="text-xs text-gray-400">
+                  {gameEngine.weapon.killsToNextLevel} kills to next level
+                </div>
+              )}
+            </div>
+            <div>
+              <span className="text-sm text-gray-400">Bombs: </span>
+              <span className="text-lg font-bold">{gameEngine.bombs > 0 ? '💣'.repeat(gameEngine.bombs) : '—'}</span>
             </div>
             {gameEngine.gameState.combo > 1 && (
               <div className="bg-gradient-to-r from-yellow-500 to-orange-500 px-2 py-1 rounded-full animate-pulse mt-2">
@@ -749,8 +883,8 @@ export const Game: React.FC = () => {
             <div className="absolute top-2 left-2 bg-black/70 text-white px-3 py-2 rounded-lg z-10">
           <div className="text-xs font-bold mb-1">Active Power-ups:</div>
           <div className="flex gap-2 flex-wrap">
-            {Array.from(gameEngine.activePowerUps.entries()).map(([type, expiration]) => {
-              const timeLeft = Math.max(0, expiration - Date.now());
+            {Array.from(gameEngine.activePowerUps.entries()).map(([type, remaining]) => {
+              const timeLeft = Math.max(0, remaining);
               const seconds = Math.ceil(timeLeft / 1000);
               let icon = '⚡';
               if (type === 'speed_boost') icon = '💨';
@@ -780,10 +914,43 @@ export const Game: React.FC = () => {
           gameEngine={gameEngine}
           width={canvasDimensions.width}
           height={canvasDimensions.height}
+          getInput={getFrameInput}
         />
 
+        {/* Continue Prompt */}
+        {gameEngine.gameState.isGameOver && !runEnded && (
+          <div className="absolute inset-0 bg-black bg-opacity-85 flex items-center justify-center rounded-lg">
+            <div className="text-center text-white max-w-lg w-full px-6">
+              <h2 className="text-5xl font-bold mb-4 bg-gradient-to-r from-red-400 to-orange-400 bg-clip-text text-transparent">
+                Continue?
+              </h2>
+              <p className="text-lg text-gray-300 mb-2">
+                Restart {gameEngine.gameState.wave > 0 ? `wave ${gameEngine.gameState.wave}` : `level ${gameEngine.gameState.level}`} from its checkpoint with full lives
+              </p>
+              <p className="text-sm text-yellow-400 mb-6">
+                🔁 {gameEngine.continuesLeft} {gameEngine.continuesLeft === 1 ? 'continue' : 'continues'} left · continued runs are marked on the leaderboard
+              </p>
+              <button
+                onClick={async () => {
+                  await handleUserInteraction();
+                  handleContinue();
+                }}
+                className="w-full bg-gradient-to-r from-red-600 to-orange-600 hover:from-red-700 hover:to-orange-700 text-white font-bold py-4 px-8 rounded-lg text-xl transition-all transform hover:scale-105 shadow-lg mb-2"
+              >
+                🔁 Continue
+              </button>
+              <button
+                onClick={() => setContinueDeclined(true)}
+                className="w-full bg-gradient-to-r from-gray-600 to-gray-700 hover:from-gray-700 hover:to-gray-800 text-white font-bold py-3 px-6 rounded-lg text-lg transition-all transform hover:scale-105 shadow-lg"
+              >
+                End Run
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Game Over Overlay */}
-        {gameEngine.gameState.isGameOver && (
+        {runEnded && (
           <div ref={gameOverRef} className="absolute inset-0 bg-black bg-opacity-85 flex items-center justify-center rounded-lg">
             <div className="text-center text-white max-w-lg w-full px-6">
               <h2 className="text-5xl font-bold mb-2 bg-gradient-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent">
@@ -802,7 +969,23 @@ export const Game: React.FC = () => {
               {/* Score Display */}
               <div className="mb-6">
                 <p className="text-3xl font-bold mb-2">Final Score</p>
-                <p className="text-5xl font-extrabold text-blue-400 mb-4">{gameEngine.gameState.score.toLocaleString()}</p>
+                <p className="text-5xl font-extrabold text-blue-400 mb-2">{gameEngine.gameState.score.toLocaleString()}</p>
+                <p className="text-sm text-gray-400 mb-4">
+                  {gameEngine.mode === 'endless' ? 'Endless' : 'Campaign'} · {DIFFICULTY_LABELS[gameEngine.difficulty]}
+                  {gameEngine.gameState.continues > 0 && ` · 🔁 Continued ${gameEngine.gameState.continues}×`}
+                </p>
+                {scoreVerification && (
+                  <p className={`text-sm mb-2 ${
+                    scoreVerification === 'verified' ? 'text-green-400' :
+                    scoreVerification === 'rejected' ? 'text-red-400' : 'text-gray-400'
+                  }`}>
+                    {scoreVerification === 'pending' && '⏳ Verifying score...'}
+                    {scoreVerification === 'verified' && '✅ Score verified'}
+                    {scoreVerification === 'offline' && '📴 Offline - score saved locally'}
+                    {scoreVerification === 'unauthenticated' && '🔑 Sign in with your wallet to post scores globally'}
+                    {scoreVerification === 'rejected' && '⚠️ Score could not be verified'}
+                  </p>
+                )}
                 {highScore > 0 && (
                   <p className="text-lg text-gray-400">
                     High Score: <span className="text-yellow-400 font-bold">{highScore.toLocaleString()}</span>
@@ -812,10 +995,17 @@ export const Game: React.FC = () => {
 
               {/* Stats Grid */}
               <div className="grid grid-cols-2 gap-4 mb-6 bg-gray-900/50 rounded-lg p-4 border border-gray-700">
-                <div className="text-center">
-                  <p className="text-gray-400 text-sm mb-1">Level Reached</p>
-                  <p className="text-2xl font-bold text-blue-400">{gameEngine.gameState.level}</p>
-                </div>
+                {gameEngine.mode === 'endless' ? (
+                  <div className="text-center">
+                    <p className="text-gray-400 text-sm mb-1">Wave Reached</p>
+                    <p className="text-2xl font-bold text-red-400">{gameEngine.gameState.wave}</p>
+                  </div>
+                ) : (
+                  <div className="text-center">
+                    <p className="text-gray-400 text-sm mb-1">Level Reached</p>
+                    <p className="text-2xl font-bold text-blue-400">{gameEngine.gameState.level}</p>
+                  </div>
+                )}
                 <div className="text-center">
                   <p className="text-gray-400 text-sm mb-1">Enemies Killed</p>
                   <p className="text-2xl font-bold text-green-400">{gameEngine.gameState.enemiesKilled}</p>
@@ -831,7 +1021,7 @@ export const Game: React.FC = () => {
                 <div className="text-center">
                   <p className="text-gray-400 text-sm mb-1">Time Played</p>
                   <p className="text-2xl font-bold text-orange-400">
-                    {Math.round((Date.now() - gameEngine.gameState.gameStartTime) / 1000)}s
+                    {Math.round((gameEngine.clock.now() - gameEngine.gameState.gameStartTime) / 1000)}s
                   </p>
                 </div>
               </div>
@@ -906,6 +1096,14 @@ export const Game: React.FC = () => {
                 📤 Share Score
               </button>
 
+              {/* Watch Replay Button */}
+              <button
+                onClick={() => handleWatchReplay(replayManager.getLatest())}
+                className="w-full bg-gradient-to-r from-gray-600 to-gray-700 hover:from-gray-700 hover:to-gray-800 text-white font-bold py-3 px-6 rounded-lg text-lg transition-all transform hover:scale-105 shadow-lg mb-2"
+              >
+                🎬 Watch Replay
+              </button>
+
               {/* Play Again Button */}
               <button
                 onClick={handleReset}
@@ -935,7 +1133,7 @@ export const Game: React.FC = () => {
                   opacity: levelTransition.progress < 0.5 ? levelTransition.progress * 2 : 1 - ((levelTransition.progress - 0.5) * 2),
                 }}
               >
-                Level {levelTransition.level}
+                {gameEngine.gameState.wave > 0 ? `Wave ${gameEngine.gameState.wave}` : `Level ${levelTransition.level}`}
               </div>
               <p className="text-2xl text-gray-300">Get Ready!</p>
             </div>
@@ -958,20 +1156,33 @@ export const Game: React.FC = () => {
         )}
       </div>
 
-      {/* Mobile Controls - Show on mobile (both portrait and landscape) */}
+      {/* Mobile Controls - Show on mobile (both portrait and landscape), movement buttons only with the buttons scheme */}
       {typeof window !== 'undefined' && window.innerWidth < 1024 && (
         <div className={`w-full flex-shrink-0 ${isPortrait ? 'mt-2' : 'mt-2'}`}>
           <div className="bg-gray-800 rounded-lg p-3">
             <div className="flex justify-center items-center gap-2 sm:gap-3">
-              <button
-                onTouchStart={(e) => { e.preventDefault(); handleMoveUp(); }}
-                onTouchEnd={(e) => e.preventDefault()}
-                onMouseDown={handleMoveUp}
-                className="px-4 py-3 sm:px-6 sm:py-4 bg-blue-600 hover:bg-blue-700 active:bg-blue-800 rounded-lg text-white font-bold text-lg sm:text-xl transition-colors touch-manipulation"
-                style={{ touchAction: 'manipulation' }}
-              >
-                ↑ Up
-              </button>
+              {movementButtons && (
+                <button
+                  onTouchStart={(e) => { e.preventDefault(); handleMoveUp(); }}
+                  onTouchEnd={(e) => e.preventDefault()}
+                  onMouseDown={handleMoveUp}
+                  className="px-4 py-3 sm:px-6 sm:py-4 bg-blue-600 hover:bg-blue-700 active:bg-blue-800 rounded-lg text-white font-bold text-lg sm:text-xl transition-colors touch-manipulation"
+                  style={{ touchAction: 'manipulation' }}
+                >
+                  ↑ Up
+                </button>
+              )}
+              {movementButtons && gameEngine.movement === 'free' && (
+                <button
+                  onTouchStart={(e) => { e.preventDefault(); handleMoveLeft(); }}
+                  onTouchEnd={(e) => e.preventDefault()}
+                  onMouseDown={handleMoveLeft}
+                  className="px-4 py-3 sm:px-6 sm:py-4 bg-blue-600 hover:bg-blue-700 active:bg-blue-800 rounded-lg text-white font-bold text-lg sm:text-xl transition-colors touch-manipulation"
+                  style={{ touchAction: 'manipulation' }}
+                >
+                  ←
+                </button>
+              )}
               <button
                 onTouchStart={(e) => { e.preventDefault(); handleShoot(); }}
                 onTouchEnd={(e) => e.preventDefault()}
@@ -982,14 +1193,49 @@ export const Game: React.FC = () => {
                 🔫 Shoot
               </button>
               <button
-                onTouchStart={(e) => { e.preventDefault(); handleMoveDown(); }}
+                onTouchStart={(e) => { e.preventDefault(); handleChargeStart(); }}
+                onTouchEnd={(e) => { e.preventDefault(); handleChargeEnd(); }}
+                onTouchCancel={handleChargeEnd}
+                onMouseDown={handleChargeStart}
+                onMouseUp={handleChargeEnd}
+                onMouseLeave={handleChargeEnd}
+                className="px-4 py-3 sm:px-6 sm:py-4 bg-purple-600 hover:bg-purple-700 active:bg-purple-800 rounded-lg text-white font-bold text-lg sm:text-xl transition-colors touch-manipulation"
+                style={{ touchAction: 'manipulation' }}
+              >
+                ⚡ Charge
+              </button>
+              <button
+                onTouchStart={(e) => { e.preventDefault(); handleBomb(); }}
                 onTouchEnd={(e) => e.preventDefault()}
-                onMouseDown={handleMoveDown}
-                className="px-4 py-3 sm:px-6 sm:py-4 bg-blue-600 hover:bg-blue-700 active:bg-blue-800 rounded-lg text-white font-bold text-lg sm:text-xl transition-colors touch-manipulation"
+                onMouseDown={handleBomb}
+                disabled={gameEngine.bombs <= 0}
+                className="px-4 py-3 sm:px-6 sm:py-4 bg-orange-600 hover:bg-orange-700 active:bg-orange-800 disabled:opacity-40 rounded-lg text-white font-bold text-lg sm:text-xl transition-colors touch-manipulation"
                 style={{ touchAction: 'manipulation' }}
               >
-                ↓ Down
+                💣 {gameEngine.bombs}
               </button>
+              {movementButtons && gameEngine.movement === 'free' && (
+                <button
+                  onTouchStart={(e) => { e.preventDefault(); handleMoveRight(); }}
+                  onTouchEnd={(e) => e.preventDefault()}
+                  onMouseDown={handleMoveRight}
+                  className="px-4 py-3 sm:px-6 sm:py-4 bg-blue-600 hover:bg-blue-700 active:bg-blue-800 rounded-lg text-white font-bold text-lg sm:text-xl transition-colors touch-manipulation"
+                  style={{ touchAction: 'manipulation' }}
+                >
+                  →
+                </button>
+              )}
+              {movementButtons && (
+                <button
+                  onTouchStart={(e) => { e.preventDefault(); handleMoveDown(); }}
+                  onTouchEnd={(e) => e.preventDefault()}
+                  onMouseDown={handleMoveDown}
+                  className="px-4 py-3 sm:px-6 sm:py-4 bg-blue-600 hover:bg-blue-700 active:bg-blue-800 rounded-lg text-white font-bold text-lg sm:text-xl transition-colors touch-manipulation"
+                  style={{ touchAction: 'manipulation' }}
+                >
+                  ↓ Down
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -998,12 +1244,230 @@ export const Game: React.FC = () => {
       {/* Desktop Controls Info */}
       <div className="hidden md:block mt-4 text-white text-center">
         <p className="text-sm text-gray-400">
-          Controls: ↑ ↓ Arrow Keys to Move | → Arrow Key to Shoot
+          Controls: {gameEngine.movement === 'free'
+            ? `${keyLabel('up')} ${keyLabel('down')} ${keyLabel('left')} ${keyLabel('right')} to Move | ${keyLabel('shoot')} to Shoot`
+            : `${keyLabel('up')} ${keyLabel('down')} to Move | ${keyLabel('shoot')} or ${keyLabel('right')} to Shoot`}
+          {` | Hold ${keyLabel('charge')} to Charge | ${keyLabel('bomb')} for Bomb | ${keyLabel('pause')} to Pause`}
         </p>
       </div>
         </div>
       </div>
 
+      {/* Leaderboard Modal */}
+      {showLeaderboard && (
+        <LeaderboardModal
+          walletAddress={walletAddress}
+          onClose={() => setShowLeaderboard(false)}
+        />
+      )}
+
+      {/* Replays Modal */}
+      {showReplays && (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+          <div className="bg-gray-800 rounded-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto border-2 border-teal-500">
+            <div className="sticky top-0 bg-gray-800 p-6 border-b border-gray-700 flex justify-between items-center">
+              <h2 className="text-3xl font-bold text-white">🎬 Recent Runs</h2>
+              <button
+                onClick={() => setShowReplays(false)}
+                className="text-gray-400 hover:text-white text-2xl font-bold"
+              >
+                ×
+              </button>
+            </div>
+
+            <div className="p-6 space-y-3">
+              {replayManager.getRuns().length === 0 ? (
+                <p className="text-center text-gray-400 py-8">No runs recorded yet. Finish a game to save a replay!</p>
+              ) : (
+                replayManager.getRuns().map((run) => (
+                  <div
+                    key={`${run.seed}-${run.recordedAt}`}
+                    className="flex items-center justify-between bg-gray-700/50 border border-gray-600 rounded-lg p-4 text-white"
+                  >
+                    <div>
+                      <div className="font-bold text-lg">{run.score.toLocaleString()} pts</div>
+                      <div className="text-sm text-gray-400">
+                        {run.wave > 0 ? `Wave ${run.wave}` : `Level ${run.level}`} · {new Date(run.recordedAt).toLocaleString()}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => handleWatchReplay(run)}
+                      className="px-4 py-2 bg-teal-600 hover:bg-teal-700 rounded-lg font-bold transition-colors"
+                    >
+                      ▶ Watch
+                    </button>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Replay Viewer */}
+      {replayRecording && (
+        <ReplayViewer
+          recording={replayRecording}
+          onClose={() => setReplayRecording(null)}
+        />
+      )}
+
+      {/* Settings Modal */}
+      {showSettings && (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+          <div className="bg-gray-800 rounded-xl max-w-lg w-full max-h-[90vh] overflow-y-auto border-2 border-gray-500">
+            <div className="sticky top-0 bg-gray-800 p-6 border-b border-gray-700 flex justify-between items-center">
+              <h2 className="text-3xl font-bold text-white">⚙️ Settings</h2>
+              <button
+                onClick={() => {
+                  inputManager.cancelCapture();
+                  setRebindingAction(null);
+                  setShowSettings(false);
+                }}
+                className="text-gray-400 hover:text-white text-2xl font-bold"
+              >
+                ×
+              </button>
+            </div>
+
+            <div className="p-6 text-white">
+              <h3 className="font-bold text-lg mb-1">🎮 Controls</h3>
+              <p className="text-sm text-gray-400 mb-4">Click a binding, then press the new key (Esc cancels)</p>
+              <div className="space-y-2">
+                {GAME_ACTIONS.map((action) => (
+                  <div key={action} className="flex items-center justify-between bg-gray-700/50 rounded-lg p-3 border border-gray-600">
+                    <span>{ACTION_LABELS[action]}</span>
+                    <button
+                      onClick={() => handleRebind(action)}
+                      className={`min-w-[8rem] px-3 py-1 rounded-lg font-mono text-sm transition-colors ${
+                        rebindingAction === action ? 'bg-yellow-600 animate-pulse' : 'bg-gray-600 hover:bg-gray-500'
+                      }`}
+                    >
+                      {rebindingAction === action ? 'Press a key...' : keyLabel(action)}
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <button
+                onClick={() => {
+                  inputManager.cancelCapture();
+                  setRebindingAction(null);
+                  inputManager.resetBindings();
+                }}
+                className="w-full mt-4 px-3 py-2 bg-gray-600 hover:bg-gray-700 rounded-lg transition-colors text-sm"
+              >
+                Reset to Defaults
+              </button>
+
+              <h3 className="font-bold text-lg mt-6 mb-1">🕹️ Controller</h3>
+              <p className="text-sm text-gray-400 mb-4">
+                {gamepadManager.isConnected()
+                  ? `Connected: ${gamepadManager.getName()}`
+                  : 'No controller detected - press any button on a connected controller'}
+              </p>
+              <div className="space-y-3">
+                <label className="block bg-gray-700/50 rounded-lg p-3 border border-gray-600">
+                  <div className="flex justify-between mb-2">
+                    <span>Stick Deadzone</span>
+                    <span className="font-mono text-sm">{Math.round(settingsManager.getSetting('gamepadDeadzone') * 100)}%</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={0.05}
+                    max={0.5}
+                    step={0.05}
+                    value={settingsManager.getSetting('gamepadDeadzone')}
+                    onChange={(e) => {
+                      settingsManager.setSetting('gamepadDeadzone', Number(e.target.value));
+                      forceRender();
+                    }}
+                    className="w-full"
+                  />
+                </label>
+                <label className="flex items-center justify-between bg-gray-700/50 rounded-lg p-3 border border-gray-600 cursor-pointer">
+                  <span>Rumble on Damage</span>
+                  <input
+                    type="checkbox"
+                    checked={settingsManager.getSetting('gamepadRumble')}
+                    onChange={(e) => {
+                      settingsManager.setSetting('gamepadRumble', e.target.checked);
+                      forceRender();
+                    }}
+                    className="w-5 h-5"
+                  />
+                </label>
+              </div>
+              <p className="text-xs text-gray-500 mt-3">
+                A: Shoot / Confirm · B: Bomb · X or LT: Charge · RT: Shoot · Start: Pause · Left stick or D-pad: Move
+              </p>
+
+              <h3 className="font-bold text-lg mt-6 mb-1">📱 Touch</h3>
+              <p className="text-sm text-gray-400 mb-4">How the base moves on touch screens</p>
+              <div className="grid grid-cols-3 gap-2 mb-3">
+                {TOUCH_CONTROL_SCHEMES.map((scheme) => (
+                  <button
+                    key={scheme}
+                    onClick={() => {
+                      settingsManager.setSetting('touchControls', scheme);
+                      forceRender();
+                    }}
+                    className={`py-2 rounded-lg font-bold text-sm transition-colors ${
+                      settingsManager.getSetting('touchControls') === scheme
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    }`}
+                  >
+                    {TOUCH_SCHEME_LABELS[scheme]}
+                  </button>
+                ))}
+              </div>
+              {settingsManager.getSetting('touchControls') === 'drag' && (
+                <div className="mb-3">
+                  <div className="grid grid-cols-2 gap-2">
+                    {(['relative', 'absolute'] as const).map((dragMode) => (
+                      <button
+                        key={dragMode}
+                        onClick={() => {
+                          settingsManager.setSetting('touchDragMode', dragMode);
+                          forceRender();
+                        }}
+                        className={`py-2 rounded-lg text-sm transition-colors ${
+                          settingsManager.getSetting('touchDragMode') === dragMode
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                        }`}
+                      >
+                        {dragMode === 'relative' ? 'Relative' : 'Absolute'}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">
+                    {settingsManager.getSetting('touchDragMode') === 'relative'
+                      ? 'The base moves as far as your finger does, from wherever you touch'
+                      : 'The base flies to the point you touch'}
+                  </p>
+                </div>
+              )}
+              <label className="flex items-center justify-between bg-gray-700/50 rounded-lg p-3 border border-gray-600 cursor-pointer">
+                <span>
+                  🔁 Auto-Fire
+                  <span className="block text-xs text-gray-400">While playing with touch controls</span>
+                </span>
+                <input
+                  type="checkbox"
+                  checked={settingsManager.getSetting('autoFire')}
+                  onChange={(e) => {
+                    settingsManager.setSetting('autoFire', e.target.checked);
+                    forceRender();
+                  }}
+                  className="w-5 h-5"
+                />
+              </label>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Achievements Modal */}
       {showAchievements && (
         <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
@@ -1,21 +1,30 @@
-// Game Canvas component - handles HTML5 Canvas rendering
+// Game Canvas component - handles HTML5 Canvas rendering, scaling the logical world to the displayed size
 
 import React, { useRef, useEffect } from 'react';
 import { GameEngine } from '@/lib/game/GameEngine';
+import { GameRenderer } from '@/lib/game/GameRenderer';
+import { Viewport } from '@/lib/game/Viewport';
+import { FrameInput } from '@/lib/game/types';
+import { FIXED_TIMESTEP, MAX_FRAME_TIME } from '@/lib/game/timing';
+import { touchControls } from '@/lib/input/TouchControls';
 
 interface GameCanvasProps {
   gameEngine: GameEngine;
-  width: number;
+  width: number; // Displayed size in CSS px - the world is letterboxed to fit
   height: number;
+  getInput: () => FrameInput; // Polled once per simulation tick
 }
 
 export const GameCanvas: React.FC<GameCanvasProps> = ({
   gameEngine,
   width,
   height,
+  getInput,
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationFrameRef = useRef<number>();
+  const getInputRef = useRef(getInput);
+  getInputRef.current = getInput;
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -24,34 +33,55 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    // Game loop
-    const gameLoop = () => {
-      gameEngine.update();
-      gameEngine.draw(ctx);
+    const renderer = new GameRenderer();
+    const viewport = new Viewport();
+    const detachTouch = touchControls.attach(canvas, (clientX, clientY) => viewport.toWorld(canvas, clientX, clientY));
+
+    // Game loop - advances the simulation in fixed ticks regardless of refresh rate
+    let lastFrameTime = performance.now();
+    let accumulator = 0;
+
+    const gameLoop = (frameTime: number) => {
+      accumulator += Math.min(Math.max(0, frameTime - lastFrameTime), MAX_FRAME_TIME);
+      lastFrameTime = frameTime;
+
+      while (accumulator >= FIXED_TIMESTEP) {
+        gameEngine.step(getInputRef.current());
+        accumulator -= FIXED_TIMESTEP;
+      }
+
+      // Follows layout and devicePixelRatio changes, e.g. rotating a phone or moving to another monitor
+      viewport.fit(canvas, window.devicePixelRatio || 1);
+      viewport.begin(ctx);
+      renderer.draw(ctx, gameEngine);
+      const joystick = touchControls.getJoystick();
+      if (joystick) {
+        renderer.drawJoystick(ctx, joystick);
+      }
+      viewport.end(ctx);
       animationFrameRef.current = requestAnimationFrame(gameLoop);
     };
 
-    gameLoop();
+    animationFrameRef.current = requestAnimationFrame(gameLoop);
 
     return () => {
       if (animationFrameRef.current) {
         cancelAnimationFrame(animationFrameRef.current);
       }
+      detachTouch();
     };
   }, [gameEngine]);
 
   return (
     <canvas
       ref={canvasRef}
-      width={width}
-      height={height}
-      className="border-2 border-blue-500 rounded-lg"
-      style={{ 
+      className="border-2 border-blue-500 rounded-lg bg-black"
+      style={{
         display: 'block',
         maxWidth: '100%',
         maxHeight: '100%',
-        width: 'auto',
-        height: 'auto'
+        width: `${width}px`,
+        height: `${height}px`,
       }}
     />
   );
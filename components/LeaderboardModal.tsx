@@ -0,0 +1,203 @@
+// Leaderboard modal - global rankings by time window with pagination
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { leaderboardManager } from '@/lib/leaderboard/LeaderboardManager';
+import { LeaderboardPage, LeaderboardWindow, RankedLeaderboardEntry } from '@/lib/leaderboard/types';
+import { DIFFICULTIES, Difficulty, GameMode } from '@/lib/game/types';
+import { DIFFICULTY_LABELS } from '@/lib/game/Difficulty';
+import { settingsManager } from '@/lib/settings/SettingsManager';
+
+interface LeaderboardModalProps {
+  walletAddress: string | null;
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 10;
+
+const formatAddress = (address: string): string =>
+  address ? `${address.slice(0, 6)}...${address.slice(-4)}` : 'Player';
+
+const MODE_LABELS: Record<GameMode, string> = {
+  campaign: '🎮 Campaign',
+  endless: '♾️ Endless',
+};
+
+const WINDOW_LABELS: Record<LeaderboardWindow, string> = {
+  daily: 'Today',
+  weekly: 'This Week',
+  all: 'All Time',
+};
+
+export const LeaderboardModal: React.FC<LeaderboardModalProps> = ({ walletAddress, onClose }) => {
+  const [gameMode, setGameMode] = useState<GameMode>('campaign');
+  const [difficulty, setDifficulty] = useState<Difficulty>(() => settingsManager.getSetting('difficulty'));
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>('all');
+  const [page, setPage] = useState(1);
+  const [data, setData] = useState<LeaderboardPage | null>(null);
+  const [walletBest, setWalletBest] = useState<RankedLeaderboardEntry | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    const category = { mode: gameMode, difficulty };
+    leaderboardManager.fetchLeaderboard(timeWindow, page, PAGE_SIZE, category).then((result) => {
+      if (!cancelled) {
+        setData(result);
+        setIsLoading(false);
+      }
+    });
+
+    if (walletAddress) {
+      leaderboardManager.fetchWalletBest(walletAddress, timeWindow, category).then((entry) => {
+        if (!cancelled) setWalletBest(entry);
+      });
+    } else {
+      setWalletBest(null);
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [gameMode, difficulty, timeWindow, page, walletAddress]);
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto border-2 border-purple-500">
+        <div className="sticky top-0 bg-gray-800 p-6 border-b border-gray-700 flex justify-between items-center">
+          <h2 className="text-3xl font-bold text-white">📊 Leaderboard</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white text-2xl font-bold"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="p-6 text-white">
+          {/* Mode Tabs */}
+          <div className="grid grid-cols-2 gap-2 mb-2">
+            {(Object.keys(MODE_LABELS) as GameMode[]).map((option) => (
+              <button
+                key={option}
+                onClick={() => {
+                  setGameMode(option);
+                  setPage(1);
+                }}
+                className={`px-3 py-2 rounded-lg text-sm font-bold transition-colors ${
+                  gameMode === option ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'
+                }`}
+              >
+                {MODE_LABELS[option]}
+              </button>
+            ))}
+          </div>
+
+          {/* Difficulty Tabs */}
+          <div className="grid grid-cols-3 gap-2 mb-2">
+            {DIFFICULTIES.map((option) => (
+              <button
+                key={option}
+                onClick={() => {
+                  setDifficulty(option);
+                  setPage(1);
+                }}
+                className={`px-3 py-2 rounded-lg text-sm font-bold transition-colors ${
+                  difficulty === option ? 'bg-orange-600' : 'bg-gray-700 hover:bg-gray-600'
+                }`}
+              >
+                {DIFFICULTY_LABELS[option]}
+              </button>
+            ))}
+          </div>
+
+          {/* Window Tabs */}
+          <div className="grid grid-cols-3 gap-2 mb-4">
+            {(Object.keys(WINDOW_LABELS) as LeaderboardWindow[]).map((option) => (
+              <button
+                key={option}
+                onClick={() => {
+                  setTimeWindow(option);
+                  setPage(1);
+                }}
+                className={`px-3 py-2 rounded-lg text-sm font-bold transition-colors ${
+                  timeWindow === option ? 'bg-purple-600' : 'bg-gray-700 hover:bg-gray-600'
+                }`}
+              >
+                {WINDOW_LABELS[option]}
+              </button>
+            ))}
+          </div>
+
+          {data?.offline && (
+            <p className="text-yellow-400 text-sm mb-3">📴 Offline - showing scores from this device</p>
+          )}
+
+          {/* Wallet Best */}
+          {walletBest && (
+            <div className="bg-purple-900/40 border border-purple-500 rounded-lg p-3 mb-4 flex justify-between">
+              <span>Your best: <span className="font-bold">#{walletBest.rank}</span></span>
+              <span className="font-bold">{walletBest.score.toLocaleString()} pts</span>
+            </div>
+          )}
+
+          {/* Entries */}
+          {isLoading ? (
+            <p className="text-center text-gray-400 py-8">Loading...</p>
+          ) : !data || data.entries.length === 0 ? (
+            <p className="text-center text-gray-400 py-8">No scores yet. Be the first!</p>
+          ) : (
+            <div className="space-y-2">
+              {data.entries.map((entry) => (
+                <div
+                  key={entry.id}
+                  className={`flex items-center justify-between rounded-lg p-3 border ${
+                    walletAddress && entry.address === walletAddress.toLowerCase()
+                      ? 'bg-purple-900/40 border-purple-500'
+                      : 'bg-gray-700/50 border-gray-600'
+                  }`}
+                >
+                  <div className="flex items-center gap-3">
+                    <span className="w-8 text-right font-bold text-gray-400">#{entry.rank}</span>
+                    <div>
+                      <div className="font-bold font-mono">{formatAddress(entry.address)}</div>
+                      <div className="text-xs text-gray-400">
+                        {entry.mode === 'endless' ? `Wave ${entry.wave}` : `Level ${entry.level}`} · {entry.enemiesKilled} kills · {entry.accuracy}% accuracy
+                        {entry.continues > 0 && <span className="text-yellow-400"> · 🔁 Continued</span>}
+                      </div>
+                    </div>
+                  </div>
+                  <span className="font-bold text-lg">{entry.score.toLocaleString()}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Pagination */}
+          <div className="flex justify-between items-center mt-4">
+            <button
+              onClick={() => setPage((prev) => Math.max(1, prev - 1))}
+              disabled={page <= 1}
+              className="px-3 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 rounded-lg text-sm transition-colors"
+            >
+              ← Prev
+            </button>
+            <span className="text-sm text-gray-400">Page {page} of {totalPages}</span>
+            <button
+              onClick={() => setPage((prev) => Math.min(totalPages, prev + 1))}
+              disabled={page >= totalPages}
+              className="px-3 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 rounded-lg text-sm transition-colors"
+            >
+              Next →
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
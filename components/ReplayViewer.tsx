@@ -0,0 +1,156 @@
+// Replay Viewer component - plays back a recorded run by re-simulating it
+
+'use client';
+
+import React, { useState, useEffect, useRef } from 'react';
+import { GameRenderer } from '@/lib/game/GameRenderer';
+import { Viewport } from '@/lib/game/Viewport';
+import { WORLD_HEIGHT, WORLD_WIDTH } from '@/lib/game/world';
+import { RunRecording } from '@/lib/game/InputLog';
+import { ReplayPlayer } from '@/lib/replay/ReplayPlayer';
+import { FIXED_TIMESTEP, MAX_FRAME_TIME } from '@/lib/game/timing';
+
+interface ReplayViewerProps {
+  recording: RunRecording;
+  onClose: () => void;
+}
+
+const formatTicks = (ticks: number): string => {
+  const totalSeconds = Math.floor((ticks * FIXED_TIMESTEP) / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export const ReplayViewer: React.FC<ReplayViewerProps> = ({ recording, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [player] = useState(() => new ReplayPlayer(recording));
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const [tick, setTick] = useState(0);
+  const isPlayingRef = useRef(isPlaying);
+  const speedRef = useRef(speed);
+  isPlayingRef.current = isPlaying;
+  speedRef.current = speed;
+
+  // Playback loop - same fixed-timestep accumulator as the live game, scaled by speed
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const renderer = new GameRenderer();
+    const viewport = new Viewport();
+    let animationFrame = 0;
+    let lastFrameTime = performance.now();
+    let accumulator = 0;
+
+    const loop = (frameTime: number) => {
+      const elapsed = Math.min(Math.max(0, frameTime - lastFrameTime), MAX_FRAME_TIME);
+      lastFrameTime = frameTime;
+
+      if (isPlayingRef.current && !player.isFinished()) {
+        accumulator += elapsed * speedRef.current;
+        while (accumulator >= FIXED_TIMESTEP && !player.isFinished()) {
+          player.advance(1);
+          accumulator -= FIXED_TIMESTEP;
+        }
+        setTick(player.currentTick);
+        if (player.isFinished()) {
+          setIsPlaying(false);
+        }
+      } else {
+        accumulator = 0;
+      }
+
+      viewport.fit(canvas, window.devicePixelRatio || 1);
+      viewport.begin(ctx);
+      renderer.draw(ctx, player.engine);
+      viewport.end(ctx);
+      animationFrame = requestAnimationFrame(loop);
+    };
+
+    animationFrame = requestAnimationFrame(loop);
+
+    return () => cancelAnimationFrame(animationFrame);
+  }, [player]);
+
+  const handleSeek = (targetTick: number) => {
+    player.seek(targetTick);
+    setTick(player.currentTick);
+  };
+
+  const handlePlayPause = () => {
+    if (player.isFinished()) {
+      // Restart from the beginning
+      player.seek(0);
+      setTick(0);
+      setIsPlaying(true);
+      return;
+    }
+    setIsPlaying((prev) => !prev);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-90 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-xl max-w-4xl w-full border-2 border-blue-500 p-4">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-2xl font-bold text-white">
+            🎬 Replay <span className="text-gray-400 text-base">Score {recording.score.toLocaleString()}</span>
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white text-2xl font-bold"
+          >
+            ×
+          </button>
+        </div>
+
+        {!player.isCompatible() && (
+          <div className="mb-3 text-yellow-400 text-sm">
+            This replay was recorded with an older version of the game and may not play back accurately.
+          </div>
+        )}
+
+        <div className="flex justify-center bg-gray-900 rounded-lg mb-4">
+          <canvas
+            ref={canvasRef}
+            className="rounded-lg"
+            style={{ display: 'block', width: '100%', maxWidth: WORLD_WIDTH, aspectRatio: `${WORLD_WIDTH} / ${WORLD_HEIGHT}` }}
+          />
+        </div>
+
+        {/* Playback Controls */}
+        <div className="flex items-center gap-3 text-white">
+          <button
+            onClick={handlePlayPause}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg font-bold transition-colors w-24"
+          >
+            {isPlaying ? '⏸ Pause' : '▶ Play'}
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={player.totalTicks}
+            value={tick}
+            onChange={(e) => handleSeek(Number(e.target.value))}
+            className="flex-1"
+          />
+          <span className="text-sm font-mono whitespace-nowrap">
+            {formatTicks(tick)} / {formatTicks(player.totalTicks)}
+          </span>
+          <button
+            onClick={() => setSpeed((prev) => (prev === 1 ? 2 : 1))}
+            className={`px-3 py-2 rounded-lg font-bold transition-colors ${
+              speed === 2 ? 'bg-purple-600 hover:bg-purple-700' : 'bg-gray-600 hover:bg-gray-700'
+            }`}
+          >
+            {speed}x
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -4,6 +4,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { walletManager, WalletManager } from '@/lib/blockchain/wallet';
+import { authManager } from '@/lib/auth/AuthManager';
 
 interface WalletButtonProps {
   onConnect?: (address: string) => void;
@@ -17,6 +18,8 @@ export const WalletButton: React.FC<WalletButtonProps> = ({ onConnect, onDisconn
     chainId: null as number | null,
   });
   const [isConnecting, setIsConnecting] = useState(false);
+  const [isSignedIn, setIsSignedIn] = useState(false);
+  const [isSigningIn, setIsSigningIn] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   // Check wallet connection on mount
@@ -61,6 +64,7 @@ export const WalletButton: React.FC<WalletButtonProps> = ({ onConnect, onDisconn
         if (state.address && onConnect) {
           onConnect(state.address);
         }
+        await refreshSignIn(state.address);
       }
     } catch (error) {
       console.error('Error checking connection:', error);
@@ -96,6 +100,7 @@ export const WalletButton: React.FC<WalletButtonProps> = ({ onConnect, onDisconn
       if (state.address && onConnect) {
         onConnect(state.address);
       }
+      await refreshSignIn(state.address);
     } catch (error: any) {
       setError(error.message || 'Failed to connect wallet');
     } finally {
@@ -103,8 +108,30 @@ export const WalletButton: React.FC<WalletButtonProps> = ({ onConnect, onDisconn
     }
   };
 
+  // Check whether the server session belongs to the connected wallet
+  const refreshSignIn = async (address: string | null) => {
+    await authManager.refreshSession();
+    setIsSignedIn(authManager.isSignedInAs(address));
+  };
+
+  const handleSignIn = async () => {
+    setIsSigningIn(true);
+    setError(null);
+
+    try {
+      await authManager.signIn();
+      setIsSignedIn(true);
+    } catch (error: any) {
+      setError(error.message || 'Failed to sign in');
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
   const handleDisconnect = () => {
     walletManager.disconnect();
+    authManager.signOut();
+    setIsSignedIn(false);
     setWalletState({
       connected: false,
       address: null,
@@ -151,12 +178,29 @@ export const WalletButton: React.FC<WalletButtonProps> = ({ onConnect, onDisconn
             </div>
           )}
         </div>
+        {isSignedIn ? (
+          <span className="text-green-400 text-sm font-bold" title="Scores are posted under this wallet">
+            ✓ Signed in
+          </span>
+        ) : (
+          <button
+            onClick={handleSignIn}
+            disabled={isSigningIn}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold rounded-lg transition-colors"
+            title="Sign a message to post scores to the global leaderboard"
+          >
+            {isSigningIn ? 'Signing...' : 'Sign In'}
+          </button>
+        )}
         <button
           onClick={handleDisconnect}
           className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white font-bold rounded-lg transition-colors"
         >
           Disconnect
         </button>
+        {error && (
+          <div className="text-red-400 text-sm">{error}</div>
+        )}
       </div>
     );
   }
@@ -2,13 +2,69 @@
 
 'use client';
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { DIFFICULTIES, Difficulty, GameMode, PLAYER_MOVEMENT_MODES, PlayerMovementMode } from '@/lib/game/types';
+import { DIFFICULTY_LABELS } from '@/lib/game/Difficulty';
+import { settingsManager } from '@/lib/settings/SettingsManager';
+import { inputManager } from '@/lib/input/InputManager';
+
+const MOVEMENT_LABELS: Record<PlayerMovementMode, string> = {
+  vertical: '↕️ Classic',
+  free: '✥ Free Flight',
+};
+
+// Menu rows in order, navigated with up/down on the keyboard or a controller
+type MenuItem = 'difficulty' | 'movement' | GameMode;
+
+const MENU_ITEMS: MenuItem[] = ['difficulty', 'movement', 'campaign', 'endless'];
+
+const FOCUS_RING = 'ring-4 ring-yellow-400';
+
+// The option after (step 1) or before (step -1) the current one, wrapping around
+const cycle = <T,>(options: T[], current: T, step: number): T =>
+  options[(options.indexOf(current) + step + options.length) % options.length];
 
 interface WelcomeScreenProps {
-  onPlayGame: () => void;
+  onPlayGame: (mode: GameMode) => void;
 }
 
 export const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onPlayGame }) => {
+  const [difficulty, setDifficulty] = useState<Difficulty>(() => settingsManager.getSetting('difficulty'));
+
+  const handleDifficultyChange = (value: Difficulty) => {
+    setDifficulty(value);
+    settingsManager.setSetting('difficulty', value);
+  };
+
+  const [movementMode, setMovementMode] = useState<PlayerMovementMode>(() => settingsManager.getSetting('movementMode'));
+
+  const handleMovementChange = (value: PlayerMovementMode) => {
+    setMovementMode(value);
+    settingsManager.setSetting('movementMode', value);
+  };
+
+  const [focused, setFocused] = useState<MenuItem>('campaign');
+
+  // Up/down move between rows, left/right change the focused option and confirm starts the focused mode
+  // (or steps the focused option, for controllers without a spare direction)
+  useEffect(() => {
+    return inputManager.onPress((action) => {
+      if (action === 'up' || action === 'down') {
+        setFocused((current) => cycle(MENU_ITEMS, current, action === 'up' ? -1 : 1));
+        return;
+      }
+      if (action !== 'left' && action !== 'right' && action !== 'confirm') return;
+      const step = action === 'left' ? -1 : 1;
+      if (focused === 'difficulty') {
+        handleDifficultyChange(cycle(DIFFICULTIES, difficulty, step));
+      } else if (focused === 'movement') {
+        handleMovementChange(cycle(PLAYER_MOVEMENT_MODES, movementMode, step));
+      } else if (action === 'confirm') {
+        onPlayGame(focused);
+      }
+    });
+  }, [focused, difficulty, movementMode, onPlayGame]);
+
   return (
     <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-blue-900 via-purple-900 to-black p-4">
       <div className="max-w-md w-full bg-gray-800 rounded-2xl shadow-2xl p-8 border-2 border-blue-500">
@@ -25,14 +81,74 @@ export const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onPlayGame }) => {
           </p>
         </div>
 
+        {/* Difficulty Selector */}
+        <div className={`mb-4 rounded-lg ${focused === 'difficulty' ? FOCUS_RING : ''}`}>
+          <p className="text-gray-400 text-sm mb-2 text-center">Difficulty</p>
+          <div className="grid grid-cols-3 gap-2">
+            {DIFFICULTIES.map((option) => (
+              <button
+                key={option}
+                onClick={() => handleDifficultyChange(option)}
+                className={`py-2 rounded-lg font-bold transition-colors ${
+                  difficulty === option
+                    ? 'bg-orange-600 text-white'
+                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+              >
+                {DIFFICULTY_LABELS[option]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Movement Selector */}
+        <div className={`mb-4 rounded-lg ${focused === 'movement' ? FOCUS_RING : ''}`}>
+          <p className="text-gray-400 text-sm mb-2 text-center">Movement</p>
+          <div className="grid grid-cols-2 gap-2">
+            {PLAYER_MOVEMENT_MODES.map((option) => (
+              <button
+                key={option}
+                onClick={() => handleMovementChange(option)}
+                className={`py-2 rounded-lg font-bold transition-colors ${
+                  movementMode === option
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+              >
+                {MOVEMENT_LABELS[option]}
+              </button>
+            ))}
+          </div>
+        </div>
+
         {/* Play Game Button */}
         <button
-          onClick={onPlayGame}
-          className="w-full bg-gradient-to-r from-green-600 to-blue-600 hover:from-green-700 hover:to-blue-700 text-white font-bold py-4 px-6 rounded-lg text-xl transition-all transform hover:scale-105 shadow-lg"
+          onClick={() => onPlayGame('campaign')}
+          onMouseEnter={() => setFocused('campaign')}
+          className={`w-full bg-gradient-to-r from-green-600 to-blue-600 hover:from-green-700 hover:to-blue-700 text-white font-bold py-4 px-6 rounded-lg text-xl transition-all transform hover:scale-105 shadow-lg ${
+            focused === 'campaign' ? `${FOCUS_RING} scale-105` : ''
+          }`}
         >
           🎮 Play Game
         </button>
 
+        {/* Endless Mode Button */}
+        <button
+          onClick={() => onPlayGame('endless')}
+          onMouseEnter={() => setFocused('endless')}
+          className={`w-full mt-3 bg-gradient-to-r from-red-600 to-purple-600 hover:from-red-700 hover:to-purple-700 text-white font-bold py-3 px-6 rounded-lg text-lg transition-all transform hover:scale-105 shadow-lg ${
+            focused === 'endless' ? `${FOCUS_RING} scale-105` : ''
+          }`}
+        >
+          ♾️ Endless Survival
+        </button>
+        <p className="mt-2 text-center text-gray-400 text-xs">
+          Clear all levels, then survive escalating waves for as long as you can
+        </p>
+        <p className="mt-3 text-center text-gray-500 text-xs">
+          ↑↓ to choose, ←→ to change, Enter / Ⓐ to start
+        </p>
+
         {/* Footer */}
         <div className="mt-6 text-center">
           <p className="text-gray-500 text-xs">
@@ -41,7 +41,7 @@ export class AchievementManager {
     enemiesKilled: number;
     bulletsShot: number;
     bulletsHit: number;
-    gameStartTime: number;
+    timePlayed: number; // Simulated ms since the run started
     powerUpsCollected: number;
   }): Achievement[] {
     const newlyUnlocked: Achievement[] = [];
@@ -72,7 +72,7 @@ export class AchievementManager {
     }
 
     // Survivor
-    const timePlayed = (now - stats.gameStartTime) / 1000;
+    const timePlayed = stats.timePlayed / 1000;
     if (timePlayed >= 120 && !this.isUnlocked('survivor')) {
       newlyUnlocked.push(this.unlock('survivor', now));
     }
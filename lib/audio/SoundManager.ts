@@ -1,6 +1,8 @@
 // Sound Manager - handles all game audio
 // Uses Web Audio API for programmatic sound generation (no external files needed)
 
+import { GameEvent, GameEventType } from '../game/types';
+
 export class SoundManager {
   private audioContext: AudioContext | null = null;
   private soundEnabled: boolean = true;
@@ -102,6 +104,46 @@ export class SoundManager {
     }
   }
 
+  // Play the sound for a simulation event emitted by GameEngine
+  handleGameEvent(event: GameEvent): void {
+    switch (event.type) {
+      case GameEventType.SHOOT:
+      case GameEventType.CHARGE_SHOT:
+        this.playShoot();
+        break;
+      case GameEventType.ENEMY_HIT:
+      case GameEventType.BOSS_HIT:
+        this.playHit();
+        break;
+      case GameEventType.ENEMY_KILLED:
+      case GameEventType.BOMB_DETONATED:
+      case GameEventType.LIFE_LOST:
+        this.playExplosion();
+        break;
+      case GameEventType.PLAYER_DAMAGED:
+        this.playDamage();
+        break;
+      case GameEventType.SHIELD_BROKEN:
+      case GameEventType.POWER_UP_COLLECTED:
+      case GameEventType.FORMATION_CLEARED:
+        this.playPowerUp();
+        break;
+      case GameEventType.WEAPON_UPGRADED:
+        this.playAchievement();
+        break;
+      case GameEventType.RUN_CONTINUED:
+        this.playLevelUp();
+        break;
+      case GameEventType.BOSS_SPAWNED:
+        this.playBossSpawn();
+        break;
+      case GameEventType.BOSS_DEFEATED:
+        this.playExplosion();
+        this.playLevelUp();
+        break;
+    }
+  }
+
   // Generate a tone
   private playTone(
     frequency: number,
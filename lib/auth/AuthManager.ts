@@ -0,0 +1,96 @@
+// Auth Manager - Sign-In With Ethereum on the client, backed by the /api/auth routes
+
+import { walletManager } from '../blockchain/wallet';
+import { createSiweMessage, SIWE_STATEMENT } from './siwe';
+
+const MESSAGE_LIFETIME = 10 * 60 * 1000; // Matches the server's nonce lifetime
+
+export class AuthManager {
+  private address: string | null = null;
+
+  // Ask the server who is signed in (the session cookie is httpOnly)
+  async refreshSession(): Promise<string | null> {
+    try {
+      const response = await fetch('/api/auth/session');
+      const data = await response.json();
+      this.address = response.ok ? data.address ?? null : null;
+    } catch (error) {
+      console.warn('Failed to check session:', error);
+      this.address = null;
+    }
+    return this.address;
+  }
+
+  // Sign an EIP-4361 message with the connected wallet and start a session
+  async signIn(): Promise<string> {
+    const state = walletManager.getState();
+    if (!state.connected || !state.address || state.chainId === null) {
+      throw new Error('Wallet not connected');
+    }
+
+    const nonceResponse = await fetch('/api/auth/nonce');
+    if (!nonceResponse.ok) {
+      throw new Error('Failed to start sign-in');
+    }
+    const { nonce } = await nonceResponse.json();
+
+    const issuedAt = new Date();
+    const message = createSiweMessage({
+      domain: window.location.host,
+      address: state.address,
+      statement: SIWE_STATEMENT,
+      uri: window.location.origin,
+      version: '1',
+      chainId: state.chainId,
+      nonce,
+      issuedAt: issuedAt.toISOString(),
+      expirationTime: new Date(issuedAt.getTime() + MESSAGE_LIFETIME).toISOString(),
+    });
+
+    let signature: string;
+    try {
+      signature = await walletManager.signMessage(message);
+    } catch (error: any) {
+      if (error.code === 4001 || error.code === 'ACTION_REJECTED') {
+        throw new Error('User rejected the sign-in request');
+      }
+      throw new Error(`Failed to sign in: ${error.message}`);
+    }
+
+    const verifyResponse = await fetch('/api/auth/verify', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ message, signature }),
+    });
+    const data = await verifyResponse.json().catch(() => ({}));
+    if (!verifyResponse.ok) {
+      throw new Error(data.error || 'Failed to sign in');
+    }
+
+    this.address = data.address;
+    return data.address;
+  }
+
+  // End the session
+  async signOut(): Promise<void> {
+    this.address = null;
+    try {
+      await fetch('/api/auth/session', { method: 'DELETE' });
+    } catch (error) {
+      console.warn('Failed to sign out:', error);
+    }
+  }
+
+  // Signed-in address (lowercased), as of the last check
+  getAddress(): string | null {
+    return this.address;
+  }
+
+  // Whether the session belongs to the given wallet
+  isSignedInAs(address: string | null): boolean {
+    return !!address && this.address === address.toLowerCase();
+  }
+}
+
+// Singleton instance
+export const authManager = new AuthManager();
@@ -0,0 +1,122 @@
+// Session cookies for Sign-In With Ethereum, and the run seeds issued to signed-in wallets - server-side only
+// Cookies and run seed tokens are HMAC-signed with SESSION_SECRET so they can't be forged or edited
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getNonceStore } from './storage';
+import { IssuedRunSeed } from '../leaderboard/types';
+
+const SESSION_COOKIE = 'bts-session';
+const NONCE_COOKIE = 'bts-siwe-nonce';
+const SESSION_MAX_AGE = 7 * 24 * 60 * 60; // 7 days, in seconds
+const NONCE_MAX_AGE = 10 * 60; // 10 minutes, in seconds
+const RUN_SEED_MAX_AGE = 24 * 60 * 60; // 1 day, in seconds - a run must be submitted within this of starting
+
+let devSecret: string | null = null;
+
+const getSecret = (): string => {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET must be set in production');
+  }
+  // Development fallback - sessions don't survive a server restart
+  if (!devSecret) {
+    console.warn('SESSION_SECRET not set, using a temporary secret');
+    devSecret = randomBytes(32).toString('hex');
+  }
+  return devSecret;
+};
+
+const sign = (payload: string): string =>
+  createHmac('sha256', getSecret()).update(payload).digest('base64url');
+
+// Encode a value with an expiry and signature
+const seal = (value: Record<string, unknown>, maxAge: number): string => {
+  const payload = Buffer.from(
+    JSON.stringify({ ...value, exp: Date.now() + maxAge * 1000 })
+  ).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+};
+
+// Decode a sealed value - returns null if tampered with or expired
+const unseal = (token: string | undefined): Record<string, any> | null => {
+  if (!token) return null;
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const value = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return typeof value.exp === 'number' && value.exp > Date.now() ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+const serializeCookie = (name: string, value: string, maxAge: number): string => {
+  const secure = process.env.NODE_ENV === 'production' ? '; Secure' : '';
+  return `${name}=${value}; Path=/; HttpOnly; SameSite=Strict; Max-Age=${maxAge}${secure}`;
+};
+
+// Issue a fresh nonce, recording it in the nonce store and binding it to this client with a signed cookie.
+// Kept server-side so a captured message and nonce cookie can't be replayed - each nonce starts at most one session
+export async function issueNonce(res: NextApiResponse): Promise<string> {
+  const nonce = randomBytes(16).toString('hex');
+  await getNonceStore().add(nonce, Date.now() + NONCE_MAX_AGE * 1000);
+  res.setHeader('Set-Cookie', serializeCookie(NONCE_COOKIE, seal({ nonce }, NONCE_MAX_AGE), NONCE_MAX_AGE));
+  return nonce;
+}
+
+// The nonce issued to this client, if still valid and not yet used
+export async function getIssuedNonce(req: NextApiRequest): Promise<string | null> {
+  const nonce: string | undefined = unseal(req.cookies[NONCE_COOKIE])?.nonce;
+  if (!nonce) return null;
+  return (await getNonceStore().isValid(nonce)) ? nonce : null;
+}
+
+// Use up a nonce - returns false if it was never issued, has expired or was already used
+export function consumeNonce(nonce: string): Promise<boolean> {
+  return getNonceStore().consume(nonce);
+}
+
+// Start a session for a verified address (also clears the used nonce's cookie)
+export function createSession(res: NextApiResponse, address: string): void {
+  res.setHeader('Set-Cookie', [
+    serializeCookie(SESSION_COOKIE, seal({ address: address.toLowerCase() }, SESSION_MAX_AGE), SESSION_MAX_AGE),
+    serializeCookie(NONCE_COOKIE, '', 0),
+  ]);
+}
+
+// The signed-in address (lowercased), or null
+export function getSessionAddress(req: NextApiRequest): string | null {
+  return unseal(req.cookies[SESSION_COOKIE])?.address ?? null;
+}
+
+// End the session
+export function destroySession(res: NextApiResponse): void {
+  res.setHeader('Set-Cookie', serializeCookie(SESSION_COOKIE, '', 0));
+}
+
+// Issue the seed for a new run, with a signed token binding it to the signed-in address.
+// Scores are only accepted for runs played on a seed issued this way, so players can't pick
+// seeds that suit them or submit someone else's recording as their own
+export function issueRunSeed(address: string): IssuedRunSeed {
+  const seed = randomBytes(4).readUInt32BE(0);
+  return { seed, token: seal({ seed, address: address.toLowerCase() }, RUN_SEED_MAX_AGE) };
+}
+
+// The seed a run token was issued for, or null if the token is invalid, expired or issued to another address
+export function getIssuedRunSeed(token: unknown, address: string): number | null {
+  const value = typeof token === 'string' ? unseal(token) : null;
+  if (!value || value.address !== address.toLowerCase() || typeof value.seed !== 'number') {
+    return null;
+  }
+  return value.seed;
+}
@@ -0,0 +1,90 @@
+// Sign-In With Ethereum (EIP-4361) message formatting and parsing
+// Shared by the client (to build the message) and the auth API routes (to check it)
+
+export interface SiweMessage {
+  domain: string;
+  address: string; // EIP-55 checksummed
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string; // ISO 8601
+  expirationTime?: string; // ISO 8601
+}
+
+export const SIWE_STATEMENT = 'Sign in to Base the Shooter to post scores to the global leaderboard.';
+
+// Format a message exactly as EIP-4361 specifies
+export function createSiweMessage(message: SiweMessage): string {
+  const lines = [
+    `${message.domain} wants you to sign in with your Ethereum account:`,
+    message.address,
+    '',
+  ];
+  if (message.statement) {
+    lines.push(message.statement);
+  }
+  lines.push(
+    '',
+    `URI: ${message.uri}`,
+    `Version: ${message.version}`,
+    `Chain ID: ${message.chainId}`,
+    `Nonce: ${message.nonce}`,
+    `Issued At: ${message.issuedAt}`
+  );
+  if (message.expirationTime) {
+    lines.push(`Expiration Time: ${message.expirationTime}`);
+  }
+  return lines.join('\n');
+}
+
+// Parse a message produced by createSiweMessage - returns null if it doesn't follow the format
+export function parseSiweMessage(text: string): SiweMessage | null {
+  const lines = text.split('\n');
+  const header = /^(\S+) wants you to sign in with your Ethereum account:$/.exec(lines[0] ?? '');
+  const address = lines[1];
+  if (!header || !address || !/^0x[0-9a-fA-F]{40}$/.test(address) || lines[2] !== '') {
+    return null;
+  }
+
+  // Optional statement followed by a blank line
+  let index = 3;
+  let statement: string | undefined;
+  if (lines[index] !== '') {
+    statement = lines[index];
+    index++;
+  }
+  if (lines[index] !== '') {
+    return null;
+  }
+  index++;
+
+  const fields = new Map<string, string>();
+  for (; index < lines.length; index++) {
+    const field = /^([A-Za-z ]+): (.+)$/.exec(lines[index]);
+    if (!field) return null;
+    fields.set(field[1], field[2]);
+  }
+
+  const uri = fields.get('URI');
+  const version = fields.get('Version');
+  const chainId = Number(fields.get('Chain ID'));
+  const nonce = fields.get('Nonce');
+  const issuedAt = fields.get('Issued At');
+  if (!uri || version !== '1' || !Number.isInteger(chainId) || !nonce || !/^[A-Za-z0-9]{8,}$/.test(nonce) || !issuedAt) {
+    return null;
+  }
+
+  return {
+    domain: header[1],
+    address,
+    statement,
+    uri,
+    version,
+    chainId,
+    nonce,
+    issuedAt,
+    expirationTime: fields.get('Expiration Time'),
+  };
+}
@@ -0,0 +1,24 @@
+// In-memory nonce store tests
+
+import { describe, expect, it } from 'vitest';
+import { MemoryNonceStore } from './MemoryNonceStore';
+
+describe('MemoryNonceStore', () => {
+  it('lets an issued nonce be consumed only once', async () => {
+    const store = new MemoryNonceStore();
+    await store.add('abc', Date.now() + 60000);
+
+    expect(await store.isValid('abc')).toBe(true);
+    expect(await Promise.all([store.consume('abc'), store.consume('abc')])).toEqual([true, false]);
+    expect(await store.isValid('abc')).toBe(false);
+  });
+
+  it('rejects nonces it never issued or that have expired', async () => {
+    const store = new MemoryNonceStore();
+    await store.add('old', Date.now() - 1);
+
+    expect(await store.isValid('unknown')).toBe(false);
+    expect(await store.isValid('old')).toBe(false);
+    expect(await store.consume('old')).toBe(false);
+  });
+});
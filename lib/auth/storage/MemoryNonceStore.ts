@@ -0,0 +1,35 @@
+// In-memory nonce store - keeps issued nonces in this server process
+// Suitable for a single server instance only: a nonce issued by one instance is unknown to the others, so behind a
+// load balancer sign-in fails unless requests are pinned to one instance. Swap for a shared store when scaling out
+
+import { NonceStore } from './NonceStore';
+
+export class MemoryNonceStore implements NonceStore {
+  private nonces = new Map<string, number>(); // Nonce to expiry (ms)
+
+  async add(nonce: string, expiresAt: number): Promise<void> {
+    this.pruneExpired();
+    this.nonces.set(nonce, expiresAt);
+  }
+
+  async isValid(nonce: string): Promise<boolean> {
+    const expiresAt = this.nonces.get(nonce);
+    return expiresAt !== undefined && expiresAt > Date.now();
+  }
+
+  // Check and delete happen with no await between them, so they can't interleave with another consume
+  async consume(nonce: string): Promise<boolean> {
+    const expiresAt = this.nonces.get(nonce);
+    this.nonces.delete(nonce);
+    return expiresAt !== undefined && expiresAt > Date.now();
+  }
+
+  private pruneExpired(): void {
+    const now = Date.now();
+    this.nonces.forEach((expiresAt, nonce) => {
+      if (expiresAt <= now) {
+        this.nonces.delete(nonce);
+      }
+    });
+  }
+}
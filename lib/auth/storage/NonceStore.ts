@@ -0,0 +1,13 @@
+// Sign-in nonce storage adapter - implement this to share issued nonces between server instances
+
+export interface NonceStore {
+  // Record a freshly issued nonce, valid until expiresAt (ms timestamp)
+  add(nonce: string, expiresAt: number): Promise<void>;
+
+  // Whether a nonce was issued, hasn't expired and hasn't been used
+  isValid(nonce: string): Promise<boolean>;
+
+  // Use up a nonce - returns false if it was never issued, has expired or was already used.
+  // The check and the delete must be atomic, so two concurrent sign-ins can't both consume it
+  consume(nonce: string): Promise<boolean>;
+}
@@ -0,0 +1,24 @@
+// Nonce store selection - server-side only
+
+import { NonceStore } from './NonceStore';
+import { MemoryNonceStore } from './MemoryNonceStore';
+
+let store: NonceStore | null = null;
+
+// Get the configured store (in memory unless one has been set)
+export function getNonceStore(): NonceStore {
+  if (!store) {
+    if (process.env.NODE_ENV === 'production') {
+      console.warn('No nonce store configured, keeping sign-in nonces in memory - only safe on a single server instance');
+    }
+    store = new MemoryNonceStore();
+  }
+  return store;
+}
+
+// Replace the store (e.g. with one shared by every server instance)
+export function setNonceStore(newStore: NonceStore): void {
+  store = newStore;
+}
+
+export type { NonceStore } from './NonceStore';
@@ -10,8 +10,8 @@ export interface WalletState {
   signer: ethers.JsonRpcSigner | null;
 }
 
-const BASE_CHAIN_ID = 8453; // Base Mainnet
-const BASE_CHAIN_ID_TESTNET = 84532; // Base Sepolia (for testing)
+export const BASE_CHAIN_ID = 8453; // Base Mainnet
+export const BASE_CHAIN_ID_TESTNET = 84532; // Base Sepolia (for testing)
 
 // Base network configuration
 const BASE_NETWORK = {
@@ -1,15 +1,25 @@
-// Base (Player) class - moves vertically, shoots horizontally
+// Base (Player) class - moves vertically or freely within the play area, shoots horizontally
 
 import { Position, Size } from './types';
+import { FIXED_TIMESTEP } from './timing';
+
+// Pixel bounds the base's top-left corner can move within
+export interface MovementBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
 
 export class Base {
   public position: Position;
   public size: Size;
   public health: number;
   public maxHealth: number;
-  public speed: number;
-  public image: HTMLImageElement | null = null;
-  public imagePath: string;
+  public speed: number; // Pixels per second
+  public acceleration: number; // Pixels per second squared, for free movement
+  public velocity: Position = { x: 0, y: 0 }; // Free movement velocity, pixels per second
+  public imagePath: string; // Sprite drawn by GameRenderer
 
   constructor(canvasWidth: number, canvasHeight: number) {
     this.size = { width: 60, height: 60 };
@@ -19,32 +29,58 @@ export class Base {
     };
     this.health = 100;
     this.maxHealth = 100;
-    this.speed = 7;
+    this.speed = 420;
+    this.acceleration = 2800;
     this.imagePath = '/images/base-the-shooter.jpg';
-    this.loadImage();
-  }
-
-  private loadImage(): void {
-    // Only load images in browser environment (not during SSR)
-    if (typeof window !== 'undefined' && typeof Image !== 'undefined') {
-      this.image = new Image();
-      this.image.src = this.imagePath;
-    }
   }
 
-  // Move up
-  moveUp(canvasHeight: number, speedMultiplier: number = 1): void {
-    this.position.y = Math.max(0, this.position.y - this.speed * speedMultiplier);
+  // Move up (deltaTime in ms, defaults to a single tick for tap controls)
+  moveUp(canvasHeight: number, speedMultiplier: number = 1, deltaTime: number = FIXED_TIMESTEP): void {
+    const distance = this.speed * speedMultiplier * (deltaTime / 1000);
+    this.position.y = Math.max(0, this.position.y - distance);
   }
 
-  // Move down
-  moveDown(canvasHeight: number, speedMultiplier: number = 1): void {
+  // Move down (deltaTime in ms, defaults to a single tick for tap controls)
+  moveDown(canvasHeight: number, speedMultiplier: number = 1, deltaTime: number = FIXED_TIMESTEP): void {
+    const distance = this.speed * speedMultiplier * (deltaTime / 1000);
     this.position.y = Math.min(
       canvasHeight - this.size.height,
-      this.position.y + this.speed * speedMultiplier
+      this.position.y + distance
     );
   }
 
+  // Accelerate towards the held direction and move within bounds (deltaTime in ms)
+  move(
+    direction: Position,
+    bounds: MovementBounds,
+    speedMultiplier: number = 1,
+    deltaTime: number = FIXED_TIMESTEP
+  ): void {
+    const dt = deltaTime / 1000;
+
+    // Diagonals are normalized so they are no faster than straight lines
+    const length = Math.hypot(direction.x, direction.y);
+    const maxSpeed = (this.speed * speedMultiplier) / Math.max(1, length);
+    const dvx = direction.x * maxSpeed - this.velocity.x;
+    const dvy = direction.y * maxSpeed - this.velocity.y;
+
+    // Velocity changes by at most the acceleration, both speeding up and slowing down
+    const change = Math.hypot(dvx, dvy);
+    const maxChange = this.acceleration * dt;
+    const scale = change > maxChange ? maxChange / change : 1;
+    this.velocity.x += dvx * scale;
+    this.velocity.y += dvy * scale;
+
+    const x = this.position.x + this.velocity.x * dt;
+    const y = this.position.y + this.velocity.y * dt;
+    this.position.x = Math.max(bounds.minX, Math.min(bounds.maxX, x));
+    this.position.y = Math.max(bounds.minY, Math.min(bounds.maxY, y));
+
+    // Stop dead against the edges of the play area
+    if (this.position.x !== x) this.velocity.x = 0;
+    if (this.position.y !== y) this.velocity.y = 0;
+  }
+
   // Get center position for bullet spawning
   getCenter(): Position {
     return {
@@ -62,27 +98,4 @@ export class Base {
   isAlive(): boolean {
     return this.health > 0;
   }
-
-  // Draw Base on canvas
-  draw(ctx: CanvasRenderingContext2D): void {
-    if (this.image && this.image.complete) {
-      ctx.drawImage(
-        this.image,
-        this.position.x,
-        this.position.y,
-        this.size.width,
-        this.size.height
-      );
-    } else {
-      // Fallback rectangle if image not loaded
-      ctx.fillStyle = '#3B82F6';
-      ctx.fillRect(
-        this.position.x,
-        this.position.y,
-        this.size.width,
-        this.size.height
-      );
-    }
-  }
 }
-
@@ -0,0 +1,48 @@
+// Boss factory - creates the boss that guards the end of each level
+
+import { Boss, BossConfig, DifficultyProfile, LevelDefinition } from './types';
+import { DIFFICULTY_PROFILES } from './Difficulty';
+import { BossPatterns } from './BossPatterns';
+
+export class BossFactory {
+  // Create the boss for a level, just off the right edge of the screen
+  static createBoss(
+    level: LevelDefinition,
+    canvasWidth: number,
+    canvasHeight: number,
+    now: number,
+    difficulty: DifficultyProfile = DIFFICULTY_PROFILES.normal
+  ): Boss | null {
+    if (!level.boss) return null;
+
+    // Scale the boss by the difficulty profile
+    const config: BossConfig = {
+      ...level.boss,
+      health: Math.round(level.boss.health * difficulty.enemyHealth),
+      speed: level.boss.speed * difficulty.enemySpeed,
+      phases: level.boss.phases.map((phase) => ({
+        ...phase,
+        shootInterval: phase.shootInterval / difficulty.enemyFireRate,
+      })),
+    };
+
+    return {
+      position: {
+        x: canvasWidth,
+        y: (canvasHeight - config.height) / 2,
+      },
+      size: { width: config.width, height: config.height },
+      health: config.health,
+      maxHealth: config.health,
+      speed: config.speed,
+      lastShotTime: now,
+      shootInterval: config.phases[0].shootInterval,
+      config,
+      phase: 0,
+      attackIndex: 0,
+      verticalDirection: 1,
+      weapons: BossPatterns.createWeapons(config.bulletSpeed),
+      isEntering: true,
+    };
+  }
+}
@@ -0,0 +1,52 @@
+// Boss attack patterns - each bullet attack is BulletPattern data, fired through the same emitter as enemy patterns
+
+import { BossAttackType, BossBulletAttack, BossWeapons, BulletPattern } from './types';
+import { BulletPatternEmitter } from './BulletPatterns';
+
+const BOSS_BULLET_DAMAGE = 10;
+const BOSS_BULLET_SIZE = 12;
+
+interface BossAttackPattern {
+  pattern: BulletPattern;
+  speedMultiplier: number; // Applied to the boss's bullet speed
+}
+
+export const BOSS_ATTACK_PATTERNS: Record<BossBulletAttack, BossAttackPattern> = {
+  // Three bullets in a tight cone aimed at the player
+  [BossAttackType.AIMED_VOLLEY]: {
+    pattern: { type: 'fan', count: 3, spread: 0.16, bulletSize: BOSS_BULLET_SIZE, damage: BOSS_BULLET_DAMAGE },
+    speedMultiplier: 1,
+  },
+  // Seven bullets fanned out towards the left of the screen
+  [BossAttackType.SPREAD]: {
+    pattern: {
+      type: 'fan',
+      count: 7,
+      spread: 1.2,
+      direction: Math.PI,
+      bulletSize: BOSS_BULLET_SIZE,
+      damage: BOSS_BULLET_DAMAGE,
+    },
+    speedMultiplier: 1,
+  },
+  // A full ring of bullets that rotates between bursts
+  [BossAttackType.SPIRAL]: {
+    pattern: { type: 'spiral', count: 12, rotationRate: 0.35, bulletSize: BOSS_BULLET_SIZE, damage: BOSS_BULLET_DAMAGE },
+    speedMultiplier: 0.75,
+  },
+};
+
+export class BossPatterns {
+  // Fresh emitters for every bullet attack, firing at the given speed (pixels per second)
+  static createWeapons(bulletSpeed: number): BossWeapons {
+    const emitter = (attack: BossBulletAttack): BulletPatternEmitter => {
+      const { pattern, speedMultiplier } = BOSS_ATTACK_PATTERNS[attack];
+      return new BulletPatternEmitter(pattern, bulletSpeed * speedMultiplier);
+    };
+    return {
+      [BossAttackType.AIMED_VOLLEY]: emitter(BossAttackType.AIMED_VOLLEY),
+      [BossAttackType.SPREAD]: emitter(BossAttackType.SPREAD),
+      [BossAttackType.SPIRAL]: emitter(BossAttackType.SPIRAL),
+    };
+  }
+}
@@ -0,0 +1,141 @@
+// Bullet patterns - turns an enemy's or boss's pattern definition into bullets
+
+import { BulletPattern, NewBullet, Position } from './types';
+
+const DEFAULT_BULLET_SIZE = 8;
+const DEFAULT_BULLET_DAMAGE = 10;
+const DEFAULT_FAN_SPREAD = 0.3; // Radians
+const DEFAULT_SPIRAL_ROTATION = 0.35; // Radians per shot
+const DEFAULT_BURST_DELAY = 100; // Milliseconds
+
+// Where the shooter is aiming
+export interface AimContext {
+  target: Position;
+  targetVelocity: Position; // Pixels per second, for predictive shots
+}
+
+// Fires one enemy's pattern and keeps the state it needs between shots
+export class BulletPatternEmitter {
+  private pattern: BulletPattern;
+  private bulletSpeed: number;
+  private spiralAngle: number = 0; // Current spiral rotation
+  private burstRemaining: number = 0; // Bullets still to fire in the current burst
+  private burstTimer: number = 0; // Remaining ms until the next burst bullet
+
+  constructor(pattern: BulletPattern, bulletSpeed: number) {
+    this.pattern = pattern;
+    this.bulletSpeed = bulletSpeed;
+  }
+
+  // Start one shot of the pattern from origin
+  fire(origin: Position, aim: AimContext): NewBullet[] {
+    const count = this.pattern.count || 1;
+    const aimAngle = this.aimAngle(origin, aim);
+
+    switch (this.pattern.type) {
+      case 'fan': {
+        if (count === 1) return [this.bullet(origin, aimAngle)];
+        const spread = this.pattern.spread ?? DEFAULT_FAN_SPREAD;
+        const bullets: NewBullet[] = [];
+        for (let i = 0; i < count; i++) {
+          bullets.push(this.bullet(origin, aimAngle - spread / 2 + (spread * i) / (count - 1)));
+        }
+        return bullets;
+      }
+      case 'ring':
+        return this.ring(origin, aimAngle, count);
+      case 'spiral': {
+        const bullets = this.ring(origin, this.spiralAngle, count);
+        this.spiralAngle += this.pattern.rotationRate ?? DEFAULT_SPIRAL_ROTATION;
+        return bullets;
+      }
+      case 'burst':
+        // First bullet now, the rest on the burst timer
+        this.burstRemaining = count - 1;
+        this.burstTimer = this.pattern.delay ?? DEFAULT_BURST_DELAY;
+        return [this.bullet(origin, aimAngle)];
+      case 'predictive':
+        return [this.bullet(origin, this.leadAngle(origin, aim))];
+      case 'aimed':
+      default:
+        return [this.bullet(origin, aimAngle)];
+    }
+  }
+
+  // Advance a burst in progress - returns any bullets due this tick (deltaTime in ms)
+  update(deltaTime: number, origin: Position, aim: AimContext): NewBullet[] {
+    if (this.burstRemaining <= 0) return [];
+
+    const bullets: NewBullet[] = [];
+    this.burstTimer -= deltaTime;
+    while (this.burstRemaining > 0 && this.burstTimer <= 0) {
+      // Each burst bullet re-aims at the player
+      bullets.push(this.bullet(origin, this.aimAngle(origin, aim)));
+      this.burstRemaining--;
+      this.burstTimer += this.pattern.delay ?? DEFAULT_BURST_DELAY;
+    }
+    return bullets;
+  }
+
+  // The pattern's fixed direction, or straight at the target
+  private aimAngle(origin: Position, aim: AimContext): number {
+    return this.pattern.direction ?? BulletPatternEmitter.angleTo(origin, aim.target);
+  }
+
+  // Evenly spaced bullets all the way round, starting at the given angle
+  private ring(origin: Position, startAngle: number, count: number): NewBullet[] {
+    const bullets: NewBullet[] = [];
+    for (let i = 0; i < count; i++) {
+      bullets.push(this.bullet(origin, startAngle + (Math.PI * 2 * i) / count));
+    }
+    return bullets;
+  }
+
+  // Angle that intercepts a target moving at constant velocity, or a straight aim if it can't be caught
+  private leadAngle(origin: Position, aim: AimContext): number {
+    const dx = aim.target.x - origin.x;
+    const dy = aim.target.y - origin.y;
+    const { x: vx, y: vy } = aim.targetVelocity;
+
+    // Solve |d + v*t| = speed*t for the earliest positive t
+    const a = vx * vx + vy * vy - this.bulletSpeed * this.bulletSpeed;
+    const b = 2 * (dx * vx + dy * vy);
+    const c = dx * dx + dy * dy;
+
+    let time = -1;
+    if (Math.abs(a) < 1e-6) {
+      time = b !== 0 ? -c / b : -1;
+    } else {
+      const discriminant = b * b - 4 * a * c;
+      if (discriminant >= 0) {
+        const root = Math.sqrt(discriminant);
+        const candidates = [(-b - root) / (2 * a), (-b + root) / (2 * a)].filter((t) => t > 0);
+        if (candidates.length > 0) time = Math.min(...candidates);
+      }
+    }
+
+    if (time <= 0) {
+      return BulletPatternEmitter.angleTo(origin, aim.target);
+    }
+    return Math.atan2(dy + vy * time, dx + vx * time);
+  }
+
+  // Enemy bullet centred on origin travelling at angle (radians)
+  private bullet(origin: Position, angle: number): NewBullet {
+    const size = this.pattern.bulletSize || DEFAULT_BULLET_SIZE;
+    return {
+      x: origin.x - size / 2,
+      y: origin.y - size / 2,
+      vx: Math.cos(angle) * this.bulletSpeed,
+      vy: Math.sin(angle) * this.bulletSpeed,
+      width: size,
+      height: size,
+      isPlayerBullet: false,
+      damage: this.pattern.damage ?? DEFAULT_BULLET_DAMAGE,
+    };
+  }
+
+  private static angleTo(origin: Position, target: Position): number {
+    return Math.atan2(target.y - origin.y, target.x - origin.x);
+  }
+}
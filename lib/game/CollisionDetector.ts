@@ -1,6 +1,6 @@
 // Collision detection utilities
 
-import { Position, Size, Bullet } from './types';
+import { Position, Size, Bullet, Boss, PowerUp } from './types';
 import { Enemy } from './Enemy';
 import { Base } from './Base';
 
@@ -20,24 +20,34 @@ export class CollisionDetector {
     );
   }
 
+  // Check if two circles overlap
+  static circleCircleCollision(center1: Position, radius1: number, center2: Position, radius2: number): boolean {
+    const dx = center1.x - center2.x;
+    const dy = center1.y - center2.y;
+    const reach = radius1 + radius2;
+    return dx * dx + dy * dy < reach * reach;
+  }
+
+  // Check if a circle overlaps a rectangle, using the rectangle's closest point to the center
+  static circleRectCollision(center: Position, radius: number, pos: Position, size: Size): boolean {
+    const dx = center.x - Math.max(pos.x, Math.min(center.x, pos.x + size.width));
+    const dy = center.y - Math.max(pos.y, Math.min(center.y, pos.y + size.height));
+    return dx * dx + dy * dy < radius * radius;
+  }
+
   // Check if bullet hits enemy
   static bulletEnemyCollision(bullet: Bullet, enemy: Enemy): boolean {
-    return this.rectRectCollision(
-      { x: bullet.x, y: bullet.y },
-      { width: bullet.width, height: bullet.height },
-      enemy.position,
-      enemy.size
-    );
+    return this.circleRectCollision(this.bulletCenter(bullet), this.bulletRadius(bullet), enemy.position, enemy.size);
+  }
+
+  // Check if bullet hits the boss
+  static bulletBossCollision(bullet: Bullet, boss: Boss): boolean {
+    return this.circleRectCollision(this.bulletCenter(bullet), this.bulletRadius(bullet), boss.position, boss.size);
   }
 
   // Check if bullet hits Base
   static bulletBaseCollision(bullet: Bullet, base: Base): boolean {
-    return this.rectRectCollision(
-      { x: bullet.x, y: bullet.y },
-      { width: bullet.width, height: bullet.height },
-      base.position,
-      base.size
-    );
+    return this.circleRectCollision(this.bulletCenter(bullet), this.bulletRadius(bullet), base.position, base.size);
   }
 
   // Check if enemy collides with Base (melee attack)
@@ -49,5 +59,26 @@ export class CollisionDetector {
       base.size
     );
   }
-}
 
+  // Check if Base touches a power-up (drawn as a circle of radius size around its position)
+  static powerUpBaseCollision(powerUp: PowerUp, base: Base): boolean {
+    return this.circleRectCollision({ x: powerUp.x, y: powerUp.y }, powerUp.size, base.position, base.size);
+  }
+
+  // Bounding box of a power-up, for the broadphase
+  static powerUpBounds(powerUp: PowerUp): { position: Position; size: Size } {
+    return {
+      position: { x: powerUp.x - powerUp.size, y: powerUp.y - powerUp.size },
+      size: { width: powerUp.size * 2, height: powerUp.size * 2 },
+    };
+  }
+
+  // Bullets are drawn round, so they collide as circles
+  private static bulletCenter(bullet: Bullet): Position {
+    return { x: bullet.x + bullet.width / 2, y: bullet.y + bullet.height / 2 };
+  }
+
+  private static bulletRadius(bullet: Bullet): number {
+    return Math.max(bullet.width, bullet.height) / 2;
+  }
+}
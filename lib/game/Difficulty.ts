@@ -0,0 +1,36 @@
+// Difficulty profiles - how each difficulty setting scales the level definitions
+
+import { Difficulty, DifficultyProfile } from './types';
+
+export const DIFFICULTY_PROFILES: Record<Difficulty, DifficultyProfile> = {
+  easy: {
+    enemyHealth: 0.75,
+    enemySpeed: 0.85,
+    enemyFireRate: 0.7,
+    spawnRate: 0.75,
+    damageTaken: 0.5,
+    scoreMultiplier: 0.5,
+  },
+  normal: {
+    enemyHealth: 1,
+    enemySpeed: 1,
+    enemyFireRate: 1,
+    spawnRate: 1,
+    damageTaken: 1,
+    scoreMultiplier: 1,
+  },
+  hard: {
+    enemyHealth: 1.5,
+    enemySpeed: 1.2,
+    enemyFireRate: 1.4,
+    spawnRate: 1.3,
+    damageTaken: 1.5,
+    scoreMultiplier: 2,
+  },
+};
+
+export const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  easy: 'Easy',
+  normal: 'Normal',
+  hard: 'Hard',
+};
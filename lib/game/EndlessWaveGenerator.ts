@@ -0,0 +1,80 @@
+// Endless wave generator - builds escalating levels once the campaign has been cleared
+
+import { BossConfig, EnemyConfig, FORMATION_TYPES, LevelDefinition, WaveDefinition } from './types';
+import { SeededRandom } from './Random';
+import { LevelLoader } from './LevelLoader';
+
+const WAVE_DURATION = 30000; // ms before each wave's boss (or the next wave)
+const BOSS_EVERY = 5; // Every fifth wave ends with a boss
+
+export class EndlessWaveGenerator {
+  // Build the level for an endless wave (1-based) from every campaign tier, scaled up
+  static createWave(wave: number, random: SeededRandom): LevelDefinition {
+    const healthScale = 1 + wave * 0.2;
+    const speedScale = Math.min(1 + wave * 0.05, 1.75);
+    const fireRateScale = Math.min(1 + wave * 0.1, 2.5);
+    const pointsScale = 1 + wave * 0.25;
+
+    const campaign: LevelDefinition[] = [];
+    for (let level = 1; level <= LevelLoader.getLevelCount(); level++) {
+      campaign.push(LevelLoader.getLevel(level)!);
+    }
+
+    // Mix enemy types from all tiers (a type redefined by a later level uses the later stats)
+    const configsByType = new Map<string, EnemyConfig>();
+    campaign.forEach((level) => {
+      level.enemies.forEach((config) => configsByType.set(config.type, config));
+    });
+    const enemies = Array.from(configsByType.values()).map((config): EnemyConfig => ({
+      ...config,
+      health: Math.round(config.health * healthScale),
+      speed: config.speed * speedScale,
+      shootInterval: config.shootInterval / fireRateScale,
+      points: Math.round(config.points * pointsScale),
+    }));
+    const types = enemies.map((config) => config.type);
+
+    // Scripted groups spread across the wave, more of them as waves go on
+    const waveCount = 3 + Math.floor(wave / 2);
+    const waves: WaveDefinition[] = [];
+    for (let i = 0; i < waveCount; i++) {
+      waves.push({
+        at: Math.round(((i + 1) * WAVE_DURATION) / (waveCount + 1)),
+        enemy: random.pick(types),
+        count: 2 + random.int(Math.min(Math.floor(wave / 2), 4) + 1), // 2 to 6 enemies
+        formation: random.pick(FORMATION_TYPES),
+      });
+    }
+
+    const bosses = campaign.map((level) => level.boss).filter((boss): boss is BossConfig => !!boss);
+    let boss: BossConfig | null = null;
+    if (wave % BOSS_EVERY === 0 && bosses.length > 0) {
+      const template = bosses[(wave / BOSS_EVERY - 1) % bosses.length];
+      boss = {
+        ...template,
+        health: Math.round(template.health * healthScale),
+        bulletSpeed: template.bulletSpeed * speedScale,
+        phases: template.phases.map((phase) => ({
+          ...phase,
+          shootInterval: phase.shootInterval / fireRateScale,
+        })),
+        reward: Math.round(template.reward * pointsScale),
+      };
+    }
+
+    return {
+      level: LevelLoader.getLevelCount() + wave,
+      name: `Wave ${wave}`,
+      duration: WAVE_DURATION,
+      enemies,
+      spawn: {
+        interval: Math.max(400, 1200 - wave * 50),
+        enemies: types,
+        squadChance: Math.min(0.05 + wave * 0.02, 0.3),
+      },
+      waves,
+      powerUps: { dropChance: 0.1, spawnInterval: 15000, spawnChance: 0.3 },
+      boss,
+    };
+  }
+}
@@ -1,122 +1,82 @@
-// Enemy class - moves from right to left, can shoot
+// Enemy class - moves from right to left using its config's movement behavior, can shoot
 
-import { Position, Size, EnemyType, EnemyConfig, Bullet } from './types';
+import { Position, Size, EnemyConfig, NewBullet } from './types';
+import { SeededRandom } from './Random';
+import { EnemyMovement, MovementBehavior } from './EnemyMovement';
+import { AimContext, BulletPatternEmitter } from './BulletPatterns';
 
 export class Enemy {
   public position: Position;
   public size: Size;
   public health: number;
   public maxHealth: number;
-  public speed: number;
+  public speed: number; // Pixels per second
   public config: EnemyConfig;
-  public image: HTMLImageElement | null = null;
-  public lastShotTime: number = 0;
-  public verticalDirection: number = 1; // 1 for down, -1 for up (for dodging)
-
-  constructor(config: EnemyConfig, canvasWidth: number, canvasHeight: number) {
+  public shootCooldown: number = 0; // Remaining ms until the next shot
+  public squadId: number | null = null; // Formation this enemy entered with, if any
+  public id: number = 0; // Stable for the enemy's lifetime, assigned by GameEngine when it enters play
+  public dead: boolean = false; // Killed or gone, removed once the current pass is over
+  private movement: MovementBehavior;
+  private weapon: BulletPatternEmitter;
+  private field: Size; // Play field, so the enemy only fires once it is fully on screen
+
+  constructor(config: EnemyConfig, canvasWidth: number, canvasHeight: number, random: SeededRandom) {
     this.config = config;
     this.size = { width: config.width, height: config.height };
     this.position = {
       x: canvasWidth,
-      y: Math.random() * (canvasHeight - this.size.height),
+      y: random.next() * (canvasHeight - this.size.height),
     };
     this.health = config.health;
     this.maxHealth = config.health;
     this.speed = config.speed;
-    this.loadImage();
+    this.field = { width: canvasWidth, height: canvasHeight };
+    this.movement = EnemyMovement.create(config.movement || 'drift', random);
+    this.weapon = new BulletPatternEmitter(config.pattern || { type: 'aimed' }, config.bulletSpeed || 240);
   }
 
-  private loadImage(): void {
-    // Only load images in browser environment (not during SSR)
-    if (typeof window !== 'undefined' && typeof Image !== 'undefined') {
-      this.image = new Image();
-      this.image.src = this.config.imagePath;
+  // Update enemy position with its movement behavior (deltaTime in ms, target is the player's centre)
+  update(canvasWidth: number, canvasHeight: number, deltaTime: number, target: Position): void {
+    this.movement.update(this, { canvasWidth, canvasHeight, target, deltaTime });
+
+    // Count down shoot cooldown
+    if (this.shootCooldown > 0) {
+      this.shootCooldown = Math.max(0, this.shootCooldown - deltaTime);
     }
   }
 
-  // Update enemy position - moves left, slight vertical movement
-  update(canvasWidth: number, canvasHeight: number): void {
-    // Move left
-    this.position.x -= this.speed;
-
-    // Slight vertical movement to dodge bullets
-    this.position.y += this.verticalDirection * 0.5;
-    
-    // Bounce off top/bottom edges
-    if (this.position.y <= 0 || this.position.y >= canvasHeight - this.size.height) {
-      this.verticalDirection *= -1;
-    }
-    this.position.y = Math.max(0, Math.min(canvasHeight - this.size.height, this.position.y));
+  // Check if enemy can shoot - not while still flying in, where its bullets would be culled at once
+  canShoot(): boolean {
+    return this.config.canShoot && this.shootCooldown <= 0 && this.isOnScreen();
   }
 
-  // Check if enemy can shoot
-  canShoot(currentTime: number): boolean {
-    return (
-      this.config.canShoot &&
-      currentTime - this.lastShotTime >= this.config.shootInterval
-    );
+  // Fly vertically to targetY before the normal movement behavior takes over
+  enterVertically(targetY: number): void {
+    this.movement = EnemyMovement.withVerticalEntry(targetY, this.movement);
   }
 
-  // Shoot bullet(s) at player - returns array for level 3 enemies (multiple bullets)
-  shoot(playerPosition: Position): Bullet[] {
-    const currentTime = Date.now();
-    if (!this.canShoot(currentTime)) {
+  // Start the enemy's bullet pattern at the player
+  shoot(aim: AimContext): NewBullet[] {
+    if (!this.canShoot()) {
       return [];
     }
 
-    this.lastShotTime = currentTime;
-
-    const bulletsPerShot = this.config.bulletsPerShot || 1;
-    const bulletSpeed = this.config.bulletSpeed || 4;
-    const bullets: Bullet[] = [];
-
-    // Calculate direction to player
-    const dx = playerPosition.x - this.position.x;
-    const dy = playerPosition.y - this.position.y;
-    const distance = Math.sqrt(dx * dx + dy * dy);
-
-    // For level 3 enemies, shoot 2 bullets with slight spread
-    if (bulletsPerShot === 2) {
-      // First bullet - slightly above center
-      const angle1 = Math.atan2(dy - 15, dx);
-      bullets.push({
-        x: this.position.x,
-        y: this.position.y + this.size.height / 2 - 8,
-        vx: Math.cos(angle1) * bulletSpeed,
-        vy: Math.sin(angle1) * bulletSpeed,
-        width: 10,
-        height: 10,
-        isPlayerBullet: false,
-        damage: 10,
-      });
-
-      // Second bullet - slightly below center
-      const angle2 = Math.atan2(dy + 15, dx);
-      bullets.push({
-        x: this.position.x,
-        y: this.position.y + this.size.height / 2 + 8,
-        vx: Math.cos(angle2) * bulletSpeed,
-        vy: Math.sin(angle2) * bulletSpeed,
-        width: 10,
-        height: 10,
-        isPlayerBullet: false,
-        damage: 10,
-      });
-    } else {
-      // Single bullet for level 2 enemies
-      bullets.push({
-        x: this.position.x,
-        y: this.position.y + this.size.height / 2,
-        vx: (dx / distance) * bulletSpeed,
-        vy: (dy / distance) * bulletSpeed,
-        width: 8,
-        height: 8,
-        isPlayerBullet: false,
-        damage: 10,
-      });
-    }
+    this.shootCooldown = this.config.shootInterval;
+    this.movement.onShoot?.(this);
+    return this.weapon.fire(this.getMuzzle(), aim);
+  }
+
+  // Bullets still due from a pattern in progress, such as the rest of a burst (deltaTime in ms)
+  updateWeapon(deltaTime: number, aim: AimContext): NewBullet[] {
+    return this.weapon.update(deltaTime, this.getMuzzle(), aim);
+  }
 
-    return bullets;
+  // Bullets leave from the middle of the enemy's front (left) edge
+  private getMuzzle(): Position {
+    return {
+      x: this.position.x,
+      y: this.position.y + this.size.height / 2,
+    };
   }
 
   // Take damage
@@ -137,53 +97,18 @@ export class Enemy {
     return this.health > 0;
   }
 
+  // Check if the whole enemy is inside the play field
+  isOnScreen(): boolean {
+    return (
+      this.position.x >= 0 &&
+      this.position.x + this.size.width <= this.field.width &&
+      this.position.y >= 0 &&
+      this.position.y + this.size.height <= this.field.height
+    );
+  }
+
   // Check if enemy is off screen
   isOffScreen(): boolean {
     return this.position.x + this.size.width < 0;
   }
-
-  // Draw enemy on canvas
-  draw(ctx: CanvasRenderingContext2D): void {
-    if (this.image && this.image.complete) {
-      ctx.drawImage(
-        this.image,
-        this.position.x,
-        this.position.y,
-        this.size.width,
-        this.size.height
-      );
-    } else {
-      // Fallback rectangle if image not loaded
-      ctx.fillStyle = this.config.level === 1 ? '#10B981' : 
-                      this.config.level === 2 ? '#F59E0B' : '#EF4444';
-      ctx.fillRect(
-        this.position.x,
-        this.position.y,
-        this.size.width,
-        this.size.height
-      );
-    }
-
-    // Draw health bar
-    const barWidth = this.size.width;
-    const barHeight = 4;
-    const healthPercent = this.health / this.maxHealth;
-
-    ctx.fillStyle = '#FF0000';
-    ctx.fillRect(
-      this.position.x,
-      this.position.y - 8,
-      barWidth,
-      barHeight
-    );
-
-    ctx.fillStyle = '#00FF00';
-    ctx.fillRect(
-      this.position.x,
-      this.position.y - 8,
-      barWidth * healthPercent,
-      barHeight
-    );
-  }
 }
-
@@ -0,0 +1,60 @@
+// Formation tests - where each squad enters and when its members may open fire
+
+import { describe, expect, it } from 'vitest';
+import { EnemyFactory } from './EnemyFactory';
+import { LevelLoader } from './LevelLoader';
+import { SeededRandom } from './Random';
+import { WORLD_HEIGHT, WORLD_WIDTH } from './world';
+import { FormationType, LevelDefinition } from './types';
+import { FIXED_TIMESTEP } from './timing';
+import { Enemy } from './Enemy';
+
+const level = LevelLoader.getLevel(2) as LevelDefinition;
+const target = { x: 80, y: WORLD_HEIGHT / 2 };
+
+const createWave = (formation: FormationType, count: number = 4): Enemy[] =>
+  EnemyFactory.createWave({ at: 0, enemy: 'op', count, formation }, level, WORLD_WIDTH, WORLD_HEIGHT, new SeededRandom(1));
+
+const tick = (enemies: Enemy[], ticks: number): void => {
+  for (let i = 0; i < ticks; i++) {
+    enemies.forEach((enemy) => enemy.update(WORLD_WIDTH, WORLD_HEIGHT, FIXED_TIMESTEP, target));
+  }
+};
+
+describe('EnemyFactory formations', () => {
+  it('brings a pincer in from beyond the top and bottom edges', () => {
+    const enemies = createWave('pincer');
+    const top = enemies.filter((_, i) => i % 2 === 0);
+    const bottom = enemies.filter((_, i) => i % 2 === 1);
+
+    top.forEach((enemy) => expect(enemy.position.y + enemy.size.height).toBeLessThanOrEqual(0));
+    bottom.forEach((enemy) => expect(enemy.position.y).toBeGreaterThanOrEqual(WORLD_HEIGHT));
+    enemies.forEach((enemy) => {
+      expect(enemy.position.x).toBeGreaterThanOrEqual(0);
+      expect(enemy.position.x + enemy.size.width).toBeLessThanOrEqual(WORLD_WIDTH);
+    });
+
+    // Flying in is purely vertical
+    const startX = enemies.map((enemy) => enemy.position.x);
+    tick(enemies, 10);
+    expect(enemies.map((enemy) => enemy.position.x)).toEqual(startX);
+    top.forEach((enemy) => expect(enemy.position.y).toBeGreaterThan(-enemy.size.height));
+    bottom.forEach((enemy) => expect(enemy.position.y).toBeLessThan(WORLD_HEIGHT));
+
+    // Then both halves are in the field, closing on the middle, and their own movement takes over
+    tick(enemies, 120);
+    top.forEach((enemy) => expect(enemy.getCenter().y).toBeCloseTo(WORLD_HEIGHT / 4));
+    bottom.forEach((enemy) => expect(enemy.getCenter().y).toBeCloseTo((WORLD_HEIGHT * 3) / 4));
+    enemies.forEach((enemy, i) => expect(enemy.position.x).toBeLessThan(startX[i]));
+  });
+
+  it('holds fire until an enemy is fully on screen', () => {
+    const pincer = createWave('pincer');
+    const row = createWave('row');
+
+    [...pincer, ...row].forEach((enemy) => expect(enemy.canShoot()).toBe(false));
+
+    tick(pincer, 60);
+    pincer.forEach((enemy) => expect(enemy.canShoot()).toBe(true));
+  });
+});
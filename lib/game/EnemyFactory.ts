@@ -1,145 +1,139 @@
-// Enemy factory - creates enemies based on level
+// Enemy factory - creates enemies from the level definitions
 
 import { Enemy } from './Enemy';
-import { EnemyType, EnemyConfig } from './types';
+import { DifficultyProfile, EnemyConfig, LevelDefinition, WaveDefinition } from './types';
+import { SeededRandom } from './Random';
+import { LevelLoader } from './LevelLoader';
+import { DIFFICULTY_PROFILES } from './Difficulty';
+
+const FORMATION_GAP = 20; // Pixels between enemies in a column or row
 
 export class EnemyFactory {
-  // Enemy configurations per level
-  // Using Partial<> allows each level to only define the enemies that appear in that level
-  private static enemyConfigs: Record<number, Partial<Record<EnemyType, EnemyConfig>>> = {
-    1: {
-      [EnemyType.STARKENT]: {
-        type: EnemyType.STARKENT,
-        health: 30,
-        speed: 3,
-        imagePath: '/images/starkent-the-enemy.png',
-        width: 50,
-        height: 50,
-        canShoot: false,
-        shootInterval: 0,
-        level: 1,
-      },
-      [EnemyType.SCROLL]: {
-        type: EnemyType.SCROLL,
-        health: 30,
-        speed: 3,
-        imagePath: '/images/scroll-the-enemy.jpg',
-        width: 50,
-        height: 50,
-        canShoot: false,
-        shootInterval: 0,
-        level: 1,
-      },
-      [EnemyType.ZKSYN]: {
-        type: EnemyType.ZKSYN,
-        health: 30,
-        speed: 3,
-        imagePath: '/images/zksyn-the-enemy.jpg',
-        width: 50,
-        height: 50,
-        canShoot: false,
-        shootInterval: 0,
-        level: 1,
-      },
-      [EnemyType.TAIKO]: {
-        type: EnemyType.TAIKO,
-        health: 30,
-        speed: 3,
-        imagePath: '/images/taiko-the-enemy.png',
-        width: 50,
-        height: 50,
-        canShoot: false,
-        shootInterval: 0,
-        level: 1,
-      },
-    },
-    2: {
-      [EnemyType.LINEA]: {
-        type: EnemyType.LINEA,
-        health: 20,
-        speed: 2,
-        imagePath: '/images/linea-the-enemy.png',
-        width: 55,
-        height: 55,
-        canShoot: true,
-        shootInterval: 1000, // 2 seconds
-        level: 2,
-      },
-      [EnemyType.OP]: {
-        type: EnemyType.OP,
-        health: 20,
-        speed: 2,
-        imagePath: '/images/op-the-enemy.jpg',
-        width: 55,
-        height: 55,
-        canShoot: true,
-        shootInterval: 1000,
-        level: 2,
-      },
-    },
-    3: {
-      [EnemyType.ARB]: {
-        type: EnemyType.ARB,
-        health: 100,
-        speed: 2,
-        imagePath: '/images/arb-the-enemy.jpg',
-        width: 70,
-        height: 70,
-        canShoot: true,
-        shootInterval: 500, // 1.5 seconds
-        level: 3,
-        bulletsPerShot: 2, // Shoot 2 bullets at a time
-        bulletSpeed: 6, // Faster bullets for level 3
-      },
-      [EnemyType.POLYGON]: {
-        type: EnemyType.POLYGON,
-        health: 100,
-        speed: 2,
-        imagePath: '/images/polygon-the-enemy.jpg',
-        width: 70,
-        height: 70,
-        canShoot: true,
-        shootInterval: 500,
-        level: 3,
-        bulletsPerShot: 2, // Shoot 2 bullets at a time
-        bulletSpeed: 6, // Faster bullets for level 3
-      },
-    },
-  };
+  // Scale an enemy's stats by the difficulty profile
+  private static applyDifficulty(config: EnemyConfig, difficulty: DifficultyProfile): EnemyConfig {
+    return {
+      ...config,
+      health: Math.round(config.health * difficulty.enemyHealth),
+      speed: config.speed * difficulty.enemySpeed,
+      shootInterval: config.shootInterval / difficulty.enemyFireRate,
+    };
+  }
 
   // Get all enemy types for a level
-  static getEnemyTypesForLevel(level: number): EnemyType[] {
-    const configs = this.enemyConfigs[level];
-    return configs ? Object.keys(configs) as EnemyType[] : [];
+  static getEnemyTypesForLevel(level: number): string[] {
+    const definition = LevelLoader.getLevel(level);
+    return definition ? definition.enemies.map((config) => config.type) : [];
   }
 
-  // Create a random enemy for a level
-  static createRandomEnemy(level: number, canvasWidth: number, canvasHeight: number): Enemy | null {
-    const configs = this.enemyConfigs[level];
-    if (!configs) return null;
-
-    const enemyTypes = Object.keys(configs) as EnemyType[];
-    if (enemyTypes.length === 0) return null;
-    
-    const randomType = enemyTypes[Math.floor(Math.random() * enemyTypes.length)];
-    const config = configs[randomType];
-    
-    if (!config) return null;
+  // Create a random enemy from a level's enemy table
+  static createRandomEnemy(
+    level: LevelDefinition,
+    canvasWidth: number,
+    canvasHeight: number,
+    random: SeededRandom,
+    difficulty: DifficultyProfile = DIFFICULTY_PROFILES.normal
+  ): Enemy | null {
+    if (level.enemies.length === 0) return null;
 
-    return new Enemy(config, canvasWidth, canvasHeight);
+    const config = this.applyDifficulty(random.pick(level.enemies), difficulty);
+    return new Enemy(config, canvasWidth, canvasHeight, random);
   }
 
-  // Create a specific enemy type
+  // Create a specific enemy type from a level's enemy table
   static createEnemy(
-    type: EnemyType,
-    level: number,
+    type: string,
+    level: LevelDefinition,
     canvasWidth: number,
-    canvasHeight: number
+    canvasHeight: number,
+    random: SeededRandom,
+    difficulty: DifficultyProfile = DIFFICULTY_PROFILES.normal
   ): Enemy | null {
-    const configs = this.enemyConfigs[level];
-    if (!configs || !configs[type]) return null;
+    const config = level.enemies.find((enemy) => enemy.type === type);
+    if (!config) return null;
 
-    return new Enemy(configs[type], canvasWidth, canvasHeight);
+    return new Enemy(this.applyDifficulty(config, difficulty), canvasWidth, canvasHeight, random);
   }
-}
 
+  // Create a wave's enemies arranged in its formation, entering from the right edge (pincers from the
+  // top and bottom). A wave's movement, if set, replaces each enemy's own so the squad flies as one
+  static createWave(
+    wave: WaveDefinition,
+    level: LevelDefinition,
+    canvasWidth: number,
+    canvasHeight: number,
+    random: SeededRandom,
+    difficulty: DifficultyProfile = DIFFICULTY_PROFILES.normal
+  ): Enemy[] {
+    const config = level.enemies.find((enemy) => enemy.type === wave.enemy);
+    if (!config) return [];
+
+    const squadConfig = this.applyDifficulty(wave.movement ? { ...config, movement: wave.movement } : config, difficulty);
+    const enemies: Enemy[] = [];
+    for (let i = 0; i < wave.count; i++) {
+      enemies.push(new Enemy(squadConfig, canvasWidth, canvasHeight, random));
+    }
+
+    const { width, height } = enemies[0].size;
+    switch (wave.formation) {
+      case 'column': {
+        // Stacked vertically at the same x
+        const totalHeight = Math.min(canvasHeight, enemies.length * (height + FORMATION_GAP) - FORMATION_GAP);
+        const top = random.range(0, canvasHeight - totalHeight);
+        const step = enemies.length > 1 ? (totalHeight - height) / (enemies.length - 1) : 0;
+        enemies.forEach((enemy, i) => {
+          enemy.position.y = top + i * step;
+        });
+        break;
+      }
+      case 'row': {
+        // Single file at the same y, one behind the other
+        const y = random.range(0, canvasHeight - height);
+        enemies.forEach((enemy, i) => {
+          enemy.position.x = canvasWidth + i * (width + FORMATION_GAP);
+          enemy.position.y = y;
+        });
+        break;
+      }
+      case 'v': {
+        // Leader in front, the rest trailing back above and below it like a flock
+        const rows = Math.ceil((enemies.length - 1) / 2);
+        const rise = Math.min(height + FORMATION_GAP / 2, rows > 0 ? (canvasHeight - height) / (rows * 2) : 0);
+        const centerY = random.range(rows * rise, canvasHeight - height - rows * rise);
+        enemies.forEach((enemy, i) => {
+          const row = Math.ceil(i / 2);
+          const side = i % 2 === 1 ? -1 : 1;
+          enemy.position.x = canvasWidth + row * (width / 2 + FORMATION_GAP);
+          enemy.position.y = centerY + side * row * rise;
+        });
+        break;
+      }
+      case 'wall': {
+        // Full-height column with one empty slot the player has to fly through
+        const slots = enemies.length + 1;
+        const slotHeight = canvasHeight / slots;
+        const gap = random.int(slots);
+        enemies.forEach((enemy, i) => {
+          const slot = i < gap ? i : i + 1;
+          enemy.position.y = Math.max(0, Math.min(canvasHeight - height, slot * slotHeight + (slotHeight - height) / 2));
+        });
+        break;
+      }
+      case 'pincer': {
+        // Two halves dropping in from above and rising from below the field, side by side across its
+        // right-hand side, closing on the middle before flying on as normal
+        enemies.forEach((enemy, i) => {
+          const file = Math.floor(i / 2);
+          const fromTop = i % 2 === 0;
+          enemy.position.x = Math.max(0, canvasWidth - (file + 1) * (width + FORMATION_GAP));
+          enemy.position.y = fromTop ? -height : canvasHeight;
+          enemy.enterVertically(fromTop ? canvasHeight / 4 - height / 2 : (canvasHeight * 3) / 4 - height / 2);
+        });
+        break;
+      }
+      case 'random':
+        // Keep each enemy's random starting height
+        break;
+    }
+    return enemies;
+  }
+}
@@ -0,0 +1,299 @@
+// Enemy movement behaviors - each enemy type picks one through its config's movement field
+
+import { MovementType, Position } from './types';
+import { SeededRandom } from './Random';
+import type { Enemy } from './Enemy';
+
+// What a behavior can see each tick (deltaTime in ms)
+export interface MovementContext {
+  canvasWidth: number;
+  canvasHeight: number;
+  target: Position; // Centre of the player's base
+  deltaTime: number;
+}
+
+// A movement behavior owns its own per-enemy state, so every enemy gets a fresh instance
+export interface MovementBehavior {
+  update(enemy: Enemy, context: MovementContext): void;
+  onShoot?(enemy: Enemy): void;
+}
+
+// Keep an enemy inside the top/bottom edges - returns true if it was clamped
+const clampVertical = (enemy: Enemy, canvasHeight: number): boolean => {
+  const maxY = canvasHeight - enemy.size.height;
+  const clamped = Math.max(0, Math.min(maxY, enemy.position.y));
+  const hitEdge = clamped !== enemy.position.y || clamped <= 0 || clamped >= maxY;
+  enemy.position.y = clamped;
+  return hitEdge;
+};
+
+// Original behavior - move left with a slow vertical bounce
+class DriftMovement implements MovementBehavior {
+  private verticalDirection = 1; // 1 for down, -1 for up
+
+  update(enemy: Enemy, { canvasHeight, deltaTime }: MovementContext): void {
+    const dt = deltaTime / 1000;
+    enemy.position.x -= enemy.speed * dt;
+    enemy.position.y += this.verticalDirection * 30 * dt;
+
+    if (enemy.position.y <= 0 || enemy.position.y >= canvasHeight - enemy.size.height) {
+      this.verticalDirection *= -1;
+    }
+    clampVertical(enemy, canvasHeight);
+  }
+}
+
+// Move left while weaving up and down along a sine wave
+class SineMovement implements MovementBehavior {
+  private static readonly AMPLITUDE = 60; // Pixels
+  private static readonly PERIOD = 2000; // Milliseconds per full wave
+
+  private elapsed: number;
+  private baseY: number | null = null;
+
+  constructor(random: SeededRandom) {
+    // Start at a random point in the wave so a column doesn't move in lockstep
+    this.elapsed = random.range(0, SineMovement.PERIOD);
+  }
+
+  update(enemy: Enemy, { canvasHeight, deltaTime }: MovementContext): void {
+    if (this.baseY === null) {
+      const margin = SineMovement.AMPLITUDE;
+      this.baseY = Math.max(margin, Math.min(canvasHeight - enemy.size.height - margin, enemy.position.y));
+    }
+
+    this.elapsed += deltaTime;
+    enemy.position.x -= enemy.speed * (deltaTime / 1000);
+    enemy.position.y = this.baseY + Math.sin((this.elapsed / SineMovement.PERIOD) * Math.PI * 2) * SineMovement.AMPLITUDE;
+    clampVertical(enemy, canvasHeight);
+  }
+}
+
+// Cruise in, then lock on to where the player is and dive straight at them
+class DiveMovement implements MovementBehavior {
+  private static readonly TRIGGER_RANGE = 350; // Horizontal distance that starts the dive
+  private static readonly DIVE_SPEED = 2; // Multiplier on the enemy's speed while diving
+
+  private direction: Position | null = null;
+
+  update(enemy: Enemy, { canvasHeight, target, deltaTime }: MovementContext): void {
+    const dt = deltaTime / 1000;
+    const center = enemy.getCenter();
+
+    if (!this.direction && center.x - target.x <= DiveMovement.TRIGGER_RANGE) {
+      const dx = target.x - center.x;
+      const dy = target.y - center.y;
+      const distance = Math.sqrt(dx * dx + dy * dy) || 1;
+      // Never dive backwards, even if the player has slipped past
+      this.direction = { x: Math.min(-0.5, dx / distance), y: dy / distance };
+    }
+
+    if (this.direction) {
+      const speed = enemy.speed * DiveMovement.DIVE_SPEED;
+      enemy.position.x += this.direction.x * speed * dt;
+      enemy.position.y += this.direction.y * speed * dt;
+    } else {
+      enemy.position.x -= enemy.speed * dt;
+    }
+    clampVertical(enemy, canvasHeight);
+  }
+}
+
+// Move left in sharp diagonal zig-zags
+class ZigZagMovement implements MovementBehavior {
+  private static readonly LEG_DURATION = 600; // Milliseconds per diagonal leg
+  private static readonly VERTICAL_SPEED = 0.8; // Multiplier on the enemy's speed
+
+  private verticalDirection: number;
+  private legTimer = ZigZagMovement.LEG_DURATION;
+
+  constructor(random: SeededRandom) {
+    this.verticalDirection = random.chance(0.5) ? 1 : -1;
+  }
+
+  update(enemy: Enemy, { canvasHeight, deltaTime }: MovementContext): void {
+    const dt = deltaTime / 1000;
+
+    this.legTimer -= deltaTime;
+    if (this.legTimer <= 0) {
+      this.verticalDirection *= -1;
+      this.legTimer += ZigZagMovement.LEG_DURATION;
+    }
+
+    enemy.position.x -= enemy.speed * dt;
+    enemy.position.y += this.verticalDirection * enemy.speed * ZigZagMovement.VERTICAL_SPEED * dt;
+
+    if (clampVertical(enemy, canvasHeight)) {
+      // Bounce off the edge and start a fresh leg
+      this.verticalDirection = enemy.position.y <= 0 ? 1 : -1;
+      this.legTimer = ZigZagMovement.LEG_DURATION;
+    }
+  }
+}
+
+// Fly in to a holding point, then circle it while strafing to line up with the player
+class OrbitStrafeMovement implements MovementBehavior {
+  private static readonly HOLD_X = 0.7; // Holding point as a fraction of the canvas width
+  private static readonly HOLD_GAP = 200; // Closest the holding point gets to a free-moving player, in pixels
+  private static readonly RADIUS = 50; // Pixels
+  private static readonly ANGULAR_SPEED = Math.PI; // Radians per second
+  private static readonly DRIFT_SPEED = 0.25; // Multiplier on the enemy's speed for the slow advance
+  private static readonly STRAFE_SPEED = 0.6; // Multiplier on the enemy's speed when tracking the player
+
+  private anchor: Position | null = null;
+  private angle: number;
+
+  constructor(random: SeededRandom) {
+    this.angle = random.range(0, Math.PI * 2);
+  }
+
+  update(enemy: Enemy, { canvasWidth, canvasHeight, target, deltaTime }: MovementContext): void {
+    const dt = deltaTime / 1000;
+
+    if (!this.anchor) {
+      enemy.position.x -= enemy.speed * dt;
+      // Hold further out if the player has flown forward
+      const holdX = Math.max(canvasWidth * OrbitStrafeMovement.HOLD_X, target.x + OrbitStrafeMovement.HOLD_GAP);
+      if (enemy.position.x <= holdX) {
+        this.anchor = {
+          x: enemy.position.x - Math.cos(this.angle) * OrbitStrafeMovement.RADIUS,
+          y: enemy.position.y - Math.sin(this.angle) * OrbitStrafeMovement.RADIUS,
+        };
+      }
+      clampVertical(enemy, canvasHeight);
+      return;
+    }
+
+    // Strafe the orbit's centre towards the player's row, and creep forward
+    const anchorTargetY = target.y - enemy.size.height / 2;
+    const maxStrafe = enemy.speed * OrbitStrafeMovement.STRAFE_SPEED * dt;
+    this.anchor.y += Math.max(-maxStrafe, Math.min(maxStrafe, anchorTargetY - this.anchor.y));
+    this.anchor.x -= enemy.speed * OrbitStrafeMovement.DRIFT_SPEED * dt;
+
+    this.angle += OrbitStrafeMovement.ANGULAR_SPEED * dt;
+    enemy.position.x = this.anchor.x + Math.cos(this.angle) * OrbitStrafeMovement.RADIUS;
+    enemy.position.y = this.anchor.y + Math.sin(this.angle) * OrbitStrafeMovement.RADIUS;
+    clampVertical(enemy, canvasHeight);
+  }
+}
+
+// Advance until it fires, then back off for a moment before pressing in again
+class RetreatAfterFiringMovement implements MovementBehavior {
+  private static readonly RETREAT_DURATION = 400; // Milliseconds
+  private static readonly RETREAT_SPEED = 0.6; // Multiplier on the enemy's speed
+
+  private retreatTimer = 0;
+
+  update(enemy: Enemy, { canvasWidth, canvasHeight, target, deltaTime }: MovementContext): void {
+    const dt = deltaTime / 1000;
+
+    if (this.retreatTimer > 0) {
+      this.retreatTimer = Math.max(0, this.retreatTimer - deltaTime);
+      // Back off towards the right edge, but never further out than it already is
+      const retreatLimit = Math.max(enemy.position.x, canvasWidth - enemy.size.width);
+      enemy.position.x = Math.min(
+        retreatLimit,
+        enemy.position.x + enemy.speed * RetreatAfterFiringMovement.RETREAT_SPEED * dt
+      );
+      // Pull away from the player's row while backing off
+      const away = enemy.getCenter().y < target.y ? -1 : 1;
+      enemy.position.y += away * enemy.speed * 0.5 * dt;
+    } else {
+      enemy.position.x -= enemy.speed * dt;
+    }
+    clampVertical(enemy, canvasHeight);
+  }
+
+  onShoot(): void {
+    this.retreatTimer = RetreatAfterFiringMovement.RETREAT_DURATION;
+  }
+}
+
+// Home in on the player with a limited turn rate, then commit once it has passed them
+class KamikazeMovement implements MovementBehavior {
+  private static readonly SPEED = 1.3; // Multiplier on the enemy's speed
+  private static readonly TURN_RATE = 2.5; // Radians per second
+
+  private heading = Math.PI; // Facing left
+
+  update(enemy: Enemy, { canvasHeight, target, deltaTime }: MovementContext): void {
+    const dt = deltaTime / 1000;
+    const center = enemy.getCenter();
+
+    // Once past the player, level out and keep flying left
+    const desired = center.x > target.x ? Math.atan2(target.y - center.y, target.x - center.x) : Math.PI;
+    let turn = desired - this.heading;
+    while (turn > Math.PI) turn -= Math.PI * 2;
+    while (turn < -Math.PI) turn += Math.PI * 2;
+    const maxTurn = KamikazeMovement.TURN_RATE * dt;
+    this.heading += Math.max(-maxTurn, Math.min(maxTurn, turn));
+
+    const speed = enemy.speed * KamikazeMovement.SPEED;
+    enemy.position.x += Math.cos(this.heading) * speed * dt;
+    enemy.position.y += Math.sin(this.heading) * speed * dt;
+    clampVertical(enemy, canvasHeight);
+  }
+}
+
+// Fly straight down or up into the field from beyond the top or bottom edge, then hand over to
+// the enemy's own behavior (pincer formations)
+class VerticalEntryMovement implements MovementBehavior {
+  private static readonly SPEED = 2; // Multiplier on the enemy's speed while flying in
+
+  private targetY: number;
+  private next: MovementBehavior;
+  private entered = false;
+
+  constructor(targetY: number, next: MovementBehavior) {
+    this.targetY = targetY;
+    this.next = next;
+  }
+
+  update(enemy: Enemy, context: MovementContext): void {
+    if (this.entered) {
+      this.next.update(enemy, context);
+      return;
+    }
+
+    const step = enemy.speed * VerticalEntryMovement.SPEED * (context.deltaTime / 1000);
+    const remaining = this.targetY - enemy.position.y;
+    if (Math.abs(remaining) <= step) {
+      enemy.position.y = this.targetY;
+      this.entered = true;
+    } else {
+      enemy.position.y += Math.sign(remaining) * step;
+    }
+  }
+
+  onShoot(enemy: Enemy): void {
+    this.next.onShoot?.(enemy);
+  }
+}
+
+export class EnemyMovement {
+  // Create a fresh behavior for one enemy
+  static create(type: MovementType, random: SeededRandom): MovementBehavior {
+    switch (type) {
+      case 'sine':
+        return new SineMovement(random);
+      case 'dive':
+        return new DiveMovement();
+      case 'zigzag':
+        return new ZigZagMovement(random);
+      case 'orbit_strafe':
+        return new OrbitStrafeMovement(random);
+      case 'retreat_after_firing':
+        return new RetreatAfterFiringMovement();
+      case 'kamikaze':
+        return new KamikazeMovement();
+      case 'drift':
+      default:
+        return new DriftMovement();
+    }
+  }
+
+  // Wrap a behavior so the enemy first flies vertically to targetY from wherever it was placed
+  static withVerticalEntry(targetY: number, behavior: MovementBehavior): MovementBehavior {
+    return new VerticalEntryMovement(targetY, behavior);
+  }
+}
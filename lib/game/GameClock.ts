@@ -0,0 +1,30 @@
+// Game clock - the simulation's source of time, injectable for deterministic runs
+
+export interface GameClock {
+  // Current time in ms
+  now(): number;
+  // Called by the engine once per tick with the tick length in ms
+  advance(deltaTime: number): void;
+}
+
+// Simulated time that only moves when the engine ticks
+export class SimulationClock implements GameClock {
+  private time: number;
+
+  constructor(startTime: number = 0) {
+    this.time = startTime;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  advance(deltaTime: number): void {
+    this.time += deltaTime;
+  }
+
+  // Rewind to a given time (used when the engine resets)
+  reset(startTime: number = 0): void {
+    this.time = startTime;
+  }
+}
@@ -0,0 +1,284 @@
+// Headless simulation tests - the engine must play out identically from the same seed and inputs
+
+import { describe, expect, it } from 'vitest';
+import { GameEngine } from './GameEngine';
+import { Enemy } from './Enemy';
+import { BossFactory } from './BossFactory';
+import { Weapon } from './Weapon';
+import { Bullet, EnemyConfig, FrameInput, GameEventType, GameMode, PowerUp, PowerUpType, WeaponType } from './types';
+import { verifyRun, verifyRunInSlices } from '../replay/verifyRun';
+
+const MAX_TICKS = 200000; // Safety stop - every scripted run ends long before this
+
+// Frame with nothing held, overridden by the given fields
+const frame = (input: Partial<FrameInput> = {}): FrameInput => ({
+  up: false,
+  down: false,
+  left: false,
+  right: false,
+  stickX: 0,
+  stickY: 0,
+  shoot: false,
+  charge: false,
+  bomb: false,
+  continue: false,
+  ...input,
+});
+
+// Fixed script: keep firing while sweeping up and down, with the odd charge shot and bomb
+const scriptedInput = (tick: number): FrameInput =>
+  frame({
+    up: tick % 120 < 60,
+    down: tick % 120 >= 60,
+    shoot: tick % 600 < 500,
+    charge: tick % 600 >= 500,
+    bomb: tick % 1500 === 1000,
+  });
+
+// Play the script until the run ends
+const playScripted = (seed: number, mode: GameMode = 'campaign'): GameEngine => {
+  const engine = new GameEngine({ seed, mode, headless: true });
+  for (let tick = 0; tick < MAX_TICKS && !engine.gameState.isGameOver; tick++) {
+    engine.step(scriptedInput(tick));
+  }
+  return engine;
+};
+
+// Everything about the end of a run that a divergence would show up in
+const finalState = (engine: GameEngine) => ({
+  ticks: engine.inputLog.length,
+  gameState: { ...engine.gameState },
+  base: { ...engine.base.position },
+  weapon: engine.weapon.type,
+  weaponLevel: engine.weapon.level,
+  bombs: engine.bombs,
+  random: engine.random.next(),
+  enemies: engine.enemies.map((enemy) => ({ id: enemy.id, ...enemy.position, health: enemy.health })),
+  bullets: engine.bullets.map((bullet) => ({ id: bullet.id, x: bullet.x, y: bullet.y })),
+  powerUps: engine.powerUps.map((powerUp) => ({ id: powerUp.id, type: powerUp.type })),
+});
+
+describe('GameEngine headless simulation', () => {
+  it('ends a run in the same state from the same seed and inputs', () => {
+    const first = playScripted(7);
+    const second = playScripted(7);
+
+    expect(first.gameState.isGameOver).toBe(true);
+    expect(first.gameState.enemiesKilled).toBeGreaterThan(0);
+    expect(finalState(second)).toEqual(finalState(first));
+  });
+
+  it('plays endless runs deterministically too', () => {
+    expect(finalState(playScripted(11, 'endless'))).toEqual(finalState(playScripted(11, 'endless')));
+  });
+
+  it('produces a recording that verifies to the same score', () => {
+    const engine = playScripted(3);
+    const result = verifyRun(engine.getRecording());
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.run.score).toBe(engine.gameState.score);
+      expect(result.run.level).toBe(engine.gameState.level);
+      expect(result.run.ticks).toBe(engine.inputLog.length);
+    }
+  });
+
+  it('verifies the same way when the simulation is sliced', async () => {
+    const recording = playScripted(5).getRecording();
+
+    expect(await verifyRunInSlices(recording)).toEqual(verifyRun(recording));
+  });
+});
+
+// Stationary target that never fires, so a tick's outcome only depends on the collisions set up
+const TARGET_CONFIG: EnemyConfig = {
+  type: 'target',
+  health: 100,
+  speed: 0,
+  imagePath: '',
+  width: 40,
+  height: 40,
+  canShoot: false,
+  shootInterval: 0,
+  level: 1,
+  points: 10,
+  movement: 'drift',
+};
+
+// IDs well clear of the ones the engine hands out over a single tick
+let nextTestId = 10000;
+
+const placeEnemy = (engine: GameEngine, x: number, y: number, health: number): Enemy => {
+  const enemy = new Enemy({ ...TARGET_CONFIG, health }, engine.canvasWidth, engine.canvasHeight, engine.random);
+  enemy.position = { x, y };
+  enemy.id = nextTestId++;
+  engine.enemies.push(enemy);
+  return enemy;
+};
+
+// Motionless bullet (the player's unless stated) with its top-left corner at (x, y)
+const placeBullet = (
+  engine: GameEngine,
+  x: number,
+  y: number,
+  damage: number = 10,
+  isPlayerBullet: boolean = true
+): Bullet => {
+  const bullet: Bullet = {
+    id: nextTestId++,
+    x,
+    y,
+    vx: 0,
+    vy: 0,
+    width: 10,
+    height: 10,
+    isPlayerBullet,
+    damage,
+  };
+  engine.bullets.push(bullet);
+  return bullet;
+};
+
+const placePowerUp = (engine: GameEngine, x: number, y: number, type: PowerUpType, lifetime: number = 0): PowerUp => {
+  const powerUp: PowerUp = { id: nextTestId++, x, y, type, lifetime, maxLifetime: 10000, size: 30 };
+  engine.powerUps.push(powerUp);
+  return powerUp;
+};
+
+// Engine with nothing on the field yet
+const emptyField = (): GameEngine => new GameEngine({ seed: 1, headless: true });
+
+// The mark-dead/sweep rework: passes used to splice arrays while iterating them, skipping the next
+// entry and letting one bullet land several hits
+describe('GameEngine collision passes', () => {
+  it('spends a non-piercing bullet on only one of two overlapping enemies', () => {
+    const engine = emptyField();
+    const first = placeEnemy(engine, 400, 300, 100);
+    const second = placeEnemy(engine, 400, 300, 100);
+    const bullet = placeBullet(engine, 415, 315);
+
+    engine.step(frame());
+
+    expect(first.health).toBe(90);
+    expect(second.health).toBe(100);
+    expect(engine.bullets).not.toContain(bullet);
+  });
+
+  it('kills only one of two overlapping enemies with a single lethal bullet', () => {
+    const engine = emptyField();
+    placeEnemy(engine, 400, 300, 10);
+    const survivor = placeEnemy(engine, 400, 300, 10);
+    placeBullet(engine, 415, 315);
+
+    engine.step(frame());
+
+    expect(engine.gameState.enemiesKilled).toBe(1);
+    expect(engine.enemies).toEqual([survivor]);
+    expect(survivor.health).toBe(10);
+  });
+
+  it('applies both of two adjacent bullets hitting the same enemy on one tick', () => {
+    const engine = emptyField();
+    const enemy = placeEnemy(engine, 400, 300, 100);
+    placeBullet(engine, 405, 310);
+    placeBullet(engine, 415, 310);
+
+    engine.step(frame());
+
+    expect(enemy.health).toBe(80);
+    expect(engine.bullets.filter((bullet) => bullet.isPlayerBullet)).toHaveLength(0);
+  });
+
+  it('leaves later bullets in flight once the enemy they overlap has been killed', () => {
+    const engine = emptyField();
+    placeEnemy(engine, 400, 300, 10);
+    placeBullet(engine, 405, 310);
+    const second = placeBullet(engine, 415, 310);
+    const third = placeBullet(engine, 415, 320);
+
+    engine.step(frame());
+
+    expect(engine.gameState.enemiesKilled).toBe(1);
+    expect(engine.gameState.bulletsHit).toBe(1);
+    expect(engine.bullets).toContain(second);
+    expect(engine.bullets).toContain(third);
+  });
+
+  it('does not skip the enemy after one killed earlier in the same pass', () => {
+    const engine = emptyField();
+    placeEnemy(engine, 300, 200, 10);
+    placeEnemy(engine, 500, 400, 10);
+    placeBullet(engine, 315, 215);
+    placeBullet(engine, 515, 415);
+
+    engine.step(frame());
+
+    expect(engine.gameState.enemiesKilled).toBe(2);
+    expect(engine.enemies.filter((enemy) => enemy.id >= 10000)).toHaveLength(0);
+  });
+
+  it('collects a power-up listed after one that expires on the same tick', () => {
+    const engine = emptyField();
+    const baseCenter = engine.base.getCenter();
+    const collected: GameEventType[] = [];
+    engine.onEvent((event) => collected.push(event.type));
+    placePowerUp(engine, 600, 100, PowerUpType.SPEED_BOOST, 9999);
+    placePowerUp(engine, baseCenter.x, baseCenter.y, PowerUpType.SHIELD);
+    placePowerUp(engine, baseCenter.x, baseCenter.y, PowerUpType.RAPID_FIRE);
+
+    engine.step(frame());
+
+    expect(collected.filter((type) => type === GameEventType.POWER_UP_COLLECTED)).toHaveLength(2);
+    expect(engine.hasShield).toBe(true);
+    expect(engine.activePowerUps.has(PowerUpType.RAPID_FIRE)).toBe(true);
+    expect(engine.powerUps).toHaveLength(0);
+  });
+
+  it('clears the field on a boss kill without disturbing the pass that landed it', () => {
+    const engine = emptyField();
+    const boss = BossFactory.createBoss(engine.levelDefinition, engine.canvasWidth, engine.canvasHeight, 0)!;
+    boss.isEntering = false;
+    boss.position = { x: 500, y: 100 };
+    boss.health = 5;
+    engine.boss = boss;
+    placeEnemy(engine, 300, 450, 100);
+    placeBullet(engine, 200, 500, 5, false);
+    const killer = placeBullet(engine, 510, 130);
+    const following = placeBullet(engine, 520, 140);
+    const elsewhere = placeBullet(engine, 100, 100);
+
+    engine.step(frame());
+
+    expect(engine.boss).toBeNull();
+    expect(engine.gameState.bulletsHit).toBe(1);
+    expect(engine.enemies.filter((enemy) => enemy.id >= 10000)).toHaveLength(0);
+    expect(engine.bullets.some((bullet) => !bullet.isPlayerBullet)).toBe(false);
+    expect(engine.bullets).not.toContain(killer);
+    expect(engine.bullets).toContain(following);
+    expect(engine.bullets).toContain(elsewhere);
+  });
+
+  it('counts a laser beam as one shot and each target it burns as one hit', () => {
+    const engine = emptyField();
+    engine.weapon = new Weapon(WeaponType.LASER);
+    const baseCenter = engine.base.getCenter();
+    const enemy = placeEnemy(engine, 400, baseCenter.y - 20, 10000);
+
+    for (let tick = 0; tick < 30; tick++) {
+      engine.step(frame({ shoot: true }));
+    }
+    expect(engine.gameState.bulletsShot).toBe(1);
+    expect(engine.gameState.bulletsHit).toBe(1);
+
+    // Let the beam go out, then light it again on the same target (back in line after its drift)
+    for (let tick = 0; tick < 30; tick++) {
+      engine.step(frame());
+    }
+    enemy.position.y = baseCenter.y - 20;
+    engine.step(frame({ shoot: true }));
+    engine.step(frame({ shoot: true }));
+    expect(engine.gameState.bulletsShot).toBe(2);
+    expect(engine.gameState.bulletsHit).toBe(2);
+  });
+});
@@ -1,11 +1,103 @@
 // Main game engine - manages game state, entities, and game loop
 
-import { Base } from './Base';
+import { Base, MovementBounds } from './Base';
 import { Enemy } from './Enemy';
 import { EnemyFactory } from './EnemyFactory';
+import { BossFactory } from './BossFactory';
+import { LevelLoader } from './LevelLoader';
+import { EndlessWaveGenerator } from './EndlessWaveGenerator';
+import { DIFFICULTY_PROFILES } from './Difficulty';
 import { CollisionDetector } from './CollisionDetector';
-import { Bullet, GameState, Position, ScorePopup, Particle, PowerUp, PowerUpType, Boss } from './types';
-import { soundManager } from '@/lib/audio/SoundManager';
+import { SpatialHash } from './SpatialHash';
+import { ObjectPool } from './ObjectPool';
+import { CHARGE_MAX_TIME, CHARGE_MIN_TIME, Weapon } from './Weapon';
+import {
+  Bullet,
+  NewBullet,
+  GameState,
+  Position,
+  ScorePopup,
+  Particle,
+  PowerUp,
+  PowerUpType,
+  WeaponType,
+  Boss,
+  BossAttackType,
+  FormationType,
+  FrameInput,
+  GameEvent,
+  GameMode,
+  Difficulty,
+  DifficultyProfile,
+  GameEventType,
+  LevelDefinition,
+  PlayArea,
+  PlayerMovementMode,
+  Squad,
+  WaveDefinition,
+} from './types';
+import { FIXED_TIMESTEP } from './timing';
+import { WORLD_HEIGHT, WORLD_WIDTH } from './world';
+import { GameClock, SimulationClock } from './GameClock';
+import { SeededRandom } from './Random';
+import { InputLog, RunRecording, decodeInput, encodeInput } from './InputLog';
+
+// Bump whenever simulation rules change so older recordings are recognised as incompatible
+export const SIMULATION_VERSION = 19;
+
+// Free movement is limited to the left of the screen, leaving the right for enemies to arrive
+export const DEFAULT_PLAY_AREA: PlayArea = { x: 0, y: 0, width: 0.6, height: 1 };
+
+const COLLISION_CELL_SIZE = 64; // Broadphase grid cell in pixels - about the size of an enemy
+const LEVEL_CLEAR_DELAY = 2000; // ms between a boss defeat and the next level
+const BEAM_BOSS_TARGET = 0; // Stands in for the boss among the beam's targets - entity IDs start at 1
+const BOSS_ENTRY_MARGIN = 40; // Gap between the boss and the right edge once it has flown in
+const POWER_UP_DRIFT_SPEED = 90; // Pixels per second
+const BOMB_STOCK = 3; // Smart bombs at the start of a run
+const BOMB_MAX = 5; // Most bombs the player can hold (each boss defeat adds one)
+const BOMB_DAMAGE = 60; // Damage to every enemy on screen
+const BOMB_BOSS_DAMAGE = 30;
+const BOMB_FLASH_DURATION = 400; // ms of white screen flash
+const STARTING_LIVES = 3;
+const MAX_CONTINUES = 3; // Continues allowed per run
+const RESPAWN_INVULNERABILITY = 2000; // ms the base can't be hurt after respawning or continuing
+const HEALTH_PICKUP_AMOUNT = 35;
+const SQUAD_MIN_SIZE = 3; // Enemies in a squad rolled by the continuous spawner
+const SQUAD_MAX_SIZE = 5;
+const SQUAD_FORMATIONS: FormationType[] = ['column', 'row', 'v', 'wall', 'pincer'];
+const BULLET_POOL_CAPACITY = 512; // Spare objects kept for reuse - enough for the busiest boss patterns
+const PARTICLE_POOL_CAPACITY = 512;
+const SCORE_POPUP_POOL_CAPACITY = 64;
+const MAX_PARTICLES = 450; // Explosion particles on screen at once - further ones are skipped
+const MAX_SCORE_POPUPS = 40;
+
+// Optional bullet fields, cleared on every reused bullet so nothing carries over from its last life
+const BULLET_DEFAULTS: Partial<Bullet> = {
+  dead: false,
+  weapon: undefined,
+  turnRate: undefined,
+  pierce: undefined,
+  hitTargets: undefined,
+  charged: undefined,
+};
+
+// Run state at the start of a level, restored when the run continues
+interface Checkpoint {
+  score: number;
+  weapon: WeaponType;
+  weaponLevel: number;
+  bombs: number;
+}
+
+export interface GameEngineOptions {
+  seed?: number; // Defaults to a fresh random seed
+  mode?: GameMode; // Defaults to 'campaign'
+  difficulty?: Difficulty; // Defaults to 'normal'
+  movement?: PlayerMovementMode; // Defaults to 'vertical'
+  playArea?: PlayArea; // Free movement bounds, defaults to DEFAULT_PLAY_AREA
+  clock?: GameClock; // Defaults to a SimulationClock advanced by update()
+  headless?: boolean; // Skip cosmetic effects (particles, score popups) for simulations
+}
 
 export class GameEngine {
   public base: Base;
@@ -16,29 +108,76 @@ export class GameEngine {
   public powerUps: PowerUp[] = [];
   public boss: Boss | null = null;
   public gameState: GameState;
-  public canvasWidth: number;
-  public canvasHeight: number;
-  private lastSpawnTime: number = 0;
-  private lastPowerUpSpawn: number = 0;
-  private spawnInterval: number = 1000; // 2 seconds default
-  private levelDurations: Record<number, number> = {
-    1: 30000, // 30 seconds
-    2: 60000, // 60 seconds
-    3: 40000, // 40 seconds
-  };
+  public readonly canvasWidth: number = WORLD_WIDTH; // Logical play field - the renderer scales it to the screen
+  public readonly canvasHeight: number = WORLD_HEIGHT;
+  public clock: GameClock;
+  public random: SeededRandom;
+  public readonly headless: boolean;
+  public mode: GameMode;
+  public difficulty: Difficulty;
+  public movement: PlayerMovementMode;
+  public playArea: PlayArea;
+  public inputLog: InputLog = new InputLog(); // Every input applied through step()
+  public levelDefinition: LevelDefinition; // Current level's enemies, waves and rules
+  private eventListeners: ((event: GameEvent) => void)[] = [];
+  private spawnTimer: number = 0; // ms since last enemy spawn
+  private powerUpSpawnTimer: number = 0; // ms since last periodic power-up spawn
+  private nextWaveIndex: number = 0; // Next scripted wave in the current level
+  private levelClearTimer: number = 0; // Remaining ms before moving on after a boss defeat
+  private squads: Map<number, Squad> = new Map(); // Formations still eligible for their bonus
+  private nextSquadId: number = 1;
+  private nextEntityId: number = 1; // IDs for bullets, enemies and power-ups, unique within a run
+  private beamTargets: Set<number> = new Set(); // Targets the current laser beam has hit, for accuracy
+  private bulletPool = new ObjectPool<Bullet>(
+    () => ({ id: 0, x: 0, y: 0, vx: 0, vy: 0, width: 0, height: 0, isPlayerBullet: false, damage: 0 }),
+    BULLET_POOL_CAPACITY
+  );
+  private particlePool = new ObjectPool<Particle>(
+    () => ({ x: 0, y: 0, vx: 0, vy: 0, lifetime: 0, maxLifetime: 0, color: '', size: 0 }),
+    PARTICLE_POOL_CAPACITY
+  );
+  private scorePopupPool = new ObjectPool<ScorePopup>(
+    () => ({ x: 0, y: 0, value: 0, lifetime: 0, maxLifetime: 0 }),
+    SCORE_POPUP_POOL_CAPACITY
+  );
   
+  // Player movement requested for the next ticks (x: -1 left, 1 right; y: -1 up, 1 down; 0 idle)
+  public moveDirection: Position = { x: 0, y: 0 };
+  public baseVelocity: Position = { x: 0, y: 0 }; // Base movement over the last tick, pixels per second
+  public weapon: Weapon = new Weapon(); // Owns the player's fire rate, projectiles and level
+  public beamEndX: number | null = null; // Where the laser beam stopped this tick, if it is firing
+
   // Power-up states
-  public activePowerUps: Map<PowerUpType, number> = new Map(); // PowerUpType -> expiration time
+  public activePowerUps: Map<PowerUpType, number> = new Map(); // PowerUpType -> remaining time (ms)
   public baseSpeedMultiplier: number = 1;
   public shootCooldownMultiplier: number = 1;
   public hasShield: boolean = false;
   public multiShotCount: number = 1;
 
-  constructor(canvasWidth: number, canvasHeight: number) {
-    this.canvasWidth = canvasWidth;
-    this.canvasHeight = canvasHeight;
-    this.base = new Base(canvasWidth, canvasHeight);
-    const now = Date.now();
+  // Secondary actions
+  public chargeTime: number = 0; // ms the charge shot has been held
+  public bombs: number = BOMB_STOCK;
+  public bombFlash: number = 0; // Remaining ms of the bomb's screen flash
+  private enemyGrid: SpatialHash<Enemy> = new SpatialHash(COLLISION_CELL_SIZE); // Rebuilt every tick
+  private bulletGrid: SpatialHash<Bullet> = new SpatialHash(COLLISION_CELL_SIZE); // Enemy bullets only
+  private powerUpGrid: SpatialHash<PowerUp> = new SpatialHash(COLLISION_CELL_SIZE);
+  private bombHeld: boolean = false; // Bomb input on the previous tick, so holding it only detonates once
+
+  // Lives and continues
+  public invulnerableTime: number = 0; // Remaining ms the base can't be hurt
+  private checkpoint: Checkpoint = { score: 0, weapon: WeaponType.BLASTER, weaponLevel: 1, bombs: BOMB_STOCK };
+
+  constructor(options: GameEngineOptions = {}) {
+    this.clock = options.clock ?? new SimulationClock();
+    this.random = new SeededRandom(options.seed ?? SeededRandom.randomSeed());
+    this.headless = options.headless ?? false;
+    this.mode = options.mode ?? 'campaign';
+    this.difficulty = options.difficulty ?? 'normal';
+    this.movement = options.movement ?? 'vertical';
+    this.playArea = options.playArea ?? DEFAULT_PLAY_AREA;
+    this.base = new Base(this.canvasWidth, this.canvasHeight);
+    this.levelDefinition = GameEngine.getLevelDefinition(1);
+    const now = this.clock.now();
     this.gameState = {
       score: 0,
       level: 1,
@@ -47,7 +186,8 @@ export class GameEngine {
       isGameOver: false,
       isPaused: false,
       levelStartTime: now,
-      levelDuration: this.levelDurations[1],
+      levelElapsed: 0,
+      levelDuration: this.levelDefinition.duration,
       enemiesKilled: 0,
       bulletsShot: 0,
       bulletsHit: 0,
@@ -55,6 +195,10 @@ export class GameEngine {
       combo: 0,
       comboMultiplier: 1,
       lastKillTime: 0,
+      bossesDefeated: 0,
+      wave: 0,
+      lives: STARTING_LIVES,
+      continues: 0,
     };
     this.activePowerUps.clear();
     this.baseSpeedMultiplier = 1;
@@ -65,331 +209,1039 @@ export class GameEngine {
     this.powerUps = [];
   }
 
-  // Update game state (called every frame)
-  update(): void {
+  // Definition for a level that must exist
+  private static getLevelDefinition(level: number): LevelDefinition {
+    const definition = LevelLoader.getLevel(level);
+    if (!definition) {
+      throw new Error(`Level ${level} is not defined`);
+    }
+    return definition;
+  }
+
+  // Multipliers for the current difficulty
+  get difficultyProfile(): DifficultyProfile {
+    return DIFFICULTY_PROFILES[this.difficulty];
+  }
+
+  // Pixel bounds for the base under free movement
+  get movementBounds(): MovementBounds {
+    const { x, y, width, height } = this.playArea;
+    return {
+      minX: x * this.canvasWidth,
+      minY: y * this.canvasHeight,
+      maxX: (x + width) * this.canvasWidth - this.base.size.width,
+      maxY: (y + height) * this.canvasHeight - this.base.size.height,
+    };
+  }
+
+  // Register a listener for simulation events - returns an unsubscribe function
+  onEvent(listener: (event: GameEvent) => void): () => void {
+    this.eventListeners.push(listener);
+    return () => {
+      this.eventListeners = this.eventListeners.filter((l) => l !== listener);
+    };
+  }
+
+  private emit(type: GameEventType): void {
+    const event: GameEvent = { type };
+    this.eventListeners.forEach((listener) => listener(event));
+  }
+
+  // Apply one tick of player input and advance the simulation by a fixed timestep
+  step(frame: FrameInput): void {
+    // Round analog input to what the log can record, so live play and replays see identical input
+    const input = decodeInput(encodeInput(frame));
+
+    // Once the last life is lost, the only input that does anything is a continue
+    if (this.gameState.isGameOver && input.continue) {
+      this.continueRun();
+      return;
+    }
     if (this.gameState.isPaused || this.gameState.isGameOver) {
       return;
     }
 
-    const currentTime = Date.now();
-    const levelElapsed = currentTime - this.gameState.levelStartTime;
+    this.inputLog.push(input);
+    // An analog stick overrides the digital directions while it is off center
+    this.moveDirection =
+      input.stickX !== 0 || input.stickY !== 0
+        ? { x: input.stickX, y: input.stickY }
+        : {
+            x: (input.right ? 1 : 0) - (input.left ? 1 : 0),
+            y: (input.down ? 1 : 0) - (input.up ? 1 : 0),
+          };
+
+    // Holding charge builds the charge shot (and holds normal fire); letting go releases it
+    if (input.charge) {
+      this.chargeTime = Math.min(CHARGE_MAX_TIME, this.chargeTime + FIXED_TIMESTEP);
+    } else if (this.chargeTime > 0) {
+      this.releaseCharge();
+    }
+    if (input.bomb && !this.bombHeld) {
+      this.detonateBomb();
+    }
+    this.bombHeld = input.bomb;
+
+    if (input.shoot && !input.charge) {
+      this.tryShoot();
+    }
+    this.update(FIXED_TIMESTEP);
+  }
+
+  // Snapshot of this run for replay and server-side verification
+  getRecording(): RunRecording {
+    return {
+      version: SIMULATION_VERSION,
+      mode: this.mode,
+      difficulty: this.difficulty,
+      movement: this.movement,
+      playArea: this.playArea,
+      seed: this.random.seed,
+      width: this.canvasWidth,
+      height: this.canvasHeight,
+      ticks: this.inputLog.length,
+      inputs: this.inputLog.encode(),
+      score: this.gameState.score,
+      level: this.gameState.level,
+      wave: this.gameState.wave,
+      recordedAt: Date.now(),
+    };
+  }
 
-    // Check if level time has elapsed
-    if (levelElapsed >= this.gameState.levelDuration) {
-      this.nextLevel();
+  // Advance the simulation by one fixed tick (deltaTime in ms)
+  update(deltaTime: number): void {
+    if (this.gameState.isPaused || this.gameState.isGameOver) {
       return;
     }
 
-    // Spawn enemies based on level
-    this.spawnEnemies(currentTime);
+    this.clock.advance(deltaTime);
+    const dt = deltaTime / 1000; // Seconds, for per-second velocities
+    this.gameState.levelElapsed += deltaTime;
 
-    // Update enemies
-    this.enemies.forEach((enemy) => {
-      enemy.update(this.canvasWidth, this.canvasHeight);
-
-      // Enemy shoots at player
-      if (enemy.canShoot(currentTime)) {
-        const baseCenter = this.base.getCenter();
-        const bullets = enemy.shoot(baseCenter);
-        // Add all bullets (supports multiple bullets for level 3 enemies)
-        this.bullets.push(...bullets);
+    // Once the boss is down, wait briefly before moving on
+    if (this.levelClearTimer > 0) {
+      this.levelClearTimer -= deltaTime;
+      if (this.levelClearTimer <= 0) {
+        this.nextLevel();
+        return;
+      }
+    } else if (!this.boss && this.gameState.levelElapsed >= this.gameState.levelDuration) {
+      // Level time has elapsed - the boss guards the way to the next level
+      if (this.levelDefinition.boss) {
+        this.spawnBoss();
+      } else {
+        this.nextLevel();
+        return;
       }
+    }
 
-      // Check melee collision (Level 1 enemies)
-      if (!enemy.config.canShoot && CollisionDetector.enemyBaseCollision(enemy, this.base)) {
-        this.base.takeDamage(5);
-        this.gameState.playerHealth = this.base.health;
-        enemy.takeDamage(100); // Remove enemy after melee hit
-        
-        // Check if player died
-        if (!this.base.isAlive()) {
-          this.gameState.isGameOver = true;
-        }
+    // Move Base according to held input
+    const previousBasePosition = { ...this.base.position };
+    if (this.movement === 'free') {
+      this.base.move(this.moveDirection, this.movementBounds, this.baseSpeedMultiplier, deltaTime);
+    } else if (this.moveDirection.y !== 0) {
+      // A partly tilted stick moves proportionally slower
+      const speedMultiplier = this.baseSpeedMultiplier * Math.min(1, Math.abs(this.moveDirection.y));
+      if (this.moveDirection.y < 0) {
+        this.base.moveUp(this.canvasHeight, speedMultiplier, deltaTime);
+      } else {
+        this.base.moveDown(this.canvasHeight, speedMultiplier, deltaTime);
+      }
+    }
+    this.baseVelocity = {
+      x: (this.base.position.x - previousBasePosition.x) / dt,
+      y: (this.base.position.y - previousBasePosition.y) / dt,
+    };
+
+    // Count down the weapon's cooldown, the bomb flash and respawn invulnerability
+    this.weapon.update(deltaTime);
+    this.bombFlash = Math.max(0, this.bombFlash - deltaTime);
+    this.invulnerableTime = Math.max(0, this.invulnerableTime - deltaTime);
+
+    // Spawn enemies based on level (the boss brings its own minions)
+    if (!this.boss && this.levelClearTimer <= 0) {
+      this.spawnEnemies(deltaTime);
+    }
+
+    // Update enemies - movement behaviors steer towards the player's base
+    const baseCenter = this.base.getCenter();
+    const aim = { target: baseCenter, targetVelocity: this.baseVelocity };
+    this.enemies.forEach((enemy) => {
+      if (enemy.dead) return; // Bombed this tick
+      enemy.update(this.canvasWidth, this.canvasHeight, deltaTime, baseCenter);
+
+      // Enemy fires anything still due from a burst, then starts its next pattern at the player
+      this.addBullets(enemy.updateWeapon(deltaTime, aim));
+      if (enemy.canShoot()) {
+        this.addBullets(enemy.shoot(aim));
       }
     });
 
-    // Update bullets
+    // Update boss movement and attacks
+    this.updateBoss(deltaTime);
+
+    // Update bullets, steering homing missiles first
     this.bullets.forEach((bullet) => {
-      bullet.x += bullet.vx;
-      bullet.y += bullet.vy;
+      if (bullet.turnRate) {
+        this.steerMissile(bullet, dt);
+      }
+      bullet.x += bullet.vx * dt;
+      bullet.y += bullet.vy * dt;
     });
 
+    // Laser beam burns whatever it reaches first
+    this.updateBeam(dt);
+
     // Update combo decay
     this.updateCombo();
 
     // Update score popups
-    const deltaTime = 16; // ~60fps
-    this.scorePopups = this.scorePopups.filter((popup) => {
+    this.scorePopupPool.sweep(this.scorePopups, (popup) => {
       popup.lifetime += deltaTime;
-      popup.y -= 1; // Move up
+      popup.y -= 60 * dt; // Move up
       return popup.lifetime < popup.maxLifetime;
     });
 
     // Update particles
-    this.particles = this.particles.filter((particle) => {
+    const friction = Math.pow(0.98, deltaTime / FIXED_TIMESTEP); // 2% per 60Hz tick
+    this.particlePool.sweep(this.particles, (particle) => {
       particle.lifetime += deltaTime;
-      particle.x += particle.vx;
-      particle.y += particle.vy;
-      particle.vy += 0.1; // Gravity
-      particle.vx *= 0.98; // Friction
+      particle.x += particle.vx * dt;
+      particle.y += particle.vy * dt;
+      particle.vy += 360 * dt; // Gravity
+      particle.vx *= friction;
       return particle.lifetime < particle.maxLifetime;
     });
 
-    // Remove off-screen bullets
-    this.bullets = this.bullets.filter(
-      (bullet) =>
-        bullet.x > -50 &&
-        bullet.x < this.canvasWidth + 50 &&
-        bullet.y > -50 &&
-        bullet.y < this.canvasHeight + 50
-    );
+    // Retire off-screen bullets
+    this.bullets.forEach((bullet) => {
+      if (bullet.x < -50 || bullet.x > this.canvasWidth + 50 || bullet.y < -50 || bullet.y > this.canvasHeight + 50) {
+        bullet.dead = true;
+      }
+    });
 
-    // Remove off-screen enemies
-    this.enemies = this.enemies.filter((enemy) => !enemy.isOffScreen());
+    // Retire off-screen enemies - an escaped squad member forfeits the formation bonus
+    this.enemies.forEach((enemy) => {
+      if (!enemy.dead && enemy.isOffScreen()) {
+        this.breakSquad(enemy);
+        enemy.dead = true;
+      }
+    });
 
-    // Check collisions: player bullets vs enemies
-    this.bullets.forEach((bullet, bulletIndex) => {
-      if (bullet.isPlayerBullet) {
-        this.enemies.forEach((enemy, enemyIndex) => {
-          if (CollisionDetector.bulletEnemyCollision(bullet, enemy)) {
-            enemy.takeDamage(bullet.damage);
-            this.bullets.splice(bulletIndex, 1);
-
-            if (!enemy.isAlive()) {
-              const currentTime = Date.now();
-              const timeSinceLastKill = currentTime - this.gameState.lastKillTime;
-              
-              // Combo system: if killed within 2 seconds, increase combo
-              if (timeSinceLastKill < 2000 && this.gameState.lastKillTime > 0) {
-                this.gameState.combo++;
-                this.gameState.comboMultiplier = Math.min(1 + (this.gameState.combo * 0.1), 3); // Max 3x multiplier
-              } else {
-                this.gameState.combo = 1;
-                this.gameState.comboMultiplier = 1;
-              }
-              
-              this.gameState.lastKillTime = currentTime;
-              
-              // Level 3 enemies give 500 points, others give 10 * level
-              const basePoints = this.gameState.level === 3 ? 500 : 10 * this.gameState.level;
-              const points = Math.round(basePoints * this.gameState.comboMultiplier);
-              this.gameState.score += points;
-              this.gameState.enemiesKilled++;
-              this.gameState.bulletsHit++;
-              
-              // Play explosion sound
-              soundManager.playExplosion();
-              
-              // Create score popup with combo info
-              const enemyCenter = enemy.getCenter();
-              this.scorePopups.push({
-                x: enemyCenter.x,
-                y: enemyCenter.y,
-                value: points,
-                lifetime: 0,
-                maxLifetime: 1000, // 1 second
-              });
-              
-              // Create explosion particles
-              const particleCount = 15;
-              const colors = ['#FFD700', '#FF6B6B', '#4ECDC4', '#FFE66D', '#FF6B9D'];
-              for (let i = 0; i < particleCount; i++) {
-                const angle = (Math.PI * 2 * i) / particleCount;
-                const speed = 2 + Math.random() * 3;
-                this.particles.push({
-                  x: enemyCenter.x,
-                  y: enemyCenter.y,
-                  vx: Math.cos(angle) * speed,
-                  vy: Math.sin(angle) * speed,
-                  lifetime: 0,
-                  maxLifetime: 500 + Math.random() * 500,
-                  color: colors[Math.floor(Math.random() * colors.length)],
-                  size: 3 + Math.random() * 4,
-                });
-              }
-              
-              // Random chance to spawn power-up (10% chance) - only in level 3
-              if (this.gameState.level === 3 && Math.random() < 0.1) {
-                this.spawnPowerUp(enemyCenter.x, enemyCenter.y);
-              }
-              
-              this.enemies.splice(enemyIndex, 1);
-            } else {
-              // Enemy hit but not killed
-              soundManager.playHit();
-            }
-          }
-        });
+    // Collision passes below only mark entities dead; the sweeps either side remove them, so no pass
+    // ever sees an array change underneath it
+    this.sweepDead();
+
+    // Broadphase: bucket enemies by grid cell so each check below only tests what is nearby
+    this.enemyGrid.clear();
+    this.enemies.forEach((enemy) => this.enemyGrid.insert(enemy, enemy.position, enemy.size));
+
+    // Check melee collision (Level 1 enemies) - the enemy is destroyed by the impact
+    this.enemyGrid.query(this.base.position, this.base.size).forEach((enemy) => {
+      if (enemy.dead || enemy.config.canShoot || this.invulnerableTime > 0) return;
+      if (CollisionDetector.enemyBaseCollision(enemy, this.base)) {
+        enemy.dead = true;
+        this.breakSquad(enemy);
+        this.damageBase(5);
       }
     });
 
-    // Check collisions: enemy bullets vs Base
-    this.bullets.forEach((bullet, bulletIndex) => {
-      if (!bullet.isPlayerBullet) {
-        if (CollisionDetector.bulletBaseCollision(bullet, this.base)) {
-          if (this.hasShield) {
-            // Shield absorbs damage
-            this.hasShield = false;
-            soundManager.playPowerUp(); // Shield break sound
-          } else {
-            this.base.takeDamage(bullet.damage);
-            soundManager.playDamage();
-          }
-          this.gameState.playerHealth = this.base.health;
-          this.bullets.splice(bulletIndex, 1);
+    // Check collisions: player bullets vs enemies
+    this.bullets.forEach((bullet) => {
+      if (bullet.dead || !bullet.isPlayerBullet) return;
+      const candidates = this.enemyGrid.query(
+        { x: bullet.x, y: bullet.y },
+        { width: bullet.width, height: bullet.height }
+      );
+      for (const enemy of candidates) {
+        if (enemy.dead || bullet.hitTargets?.includes(enemy.id)) {
+          continue; // A piercing round only damages each enemy once
+        }
+        if (!CollisionDetector.bulletEnemyCollision(bullet, enemy)) {
+          continue;
+        }
 
-          if (!this.base.isAlive()) {
-            this.gameState.isGameOver = true;
-          }
+        enemy.takeDamage(bullet.damage);
+        if (!enemy.isAlive()) {
+          this.gameState.bulletsHit++;
+          this.killEnemy(enemy);
+          enemy.dead = true;
+        } else {
+          // Enemy hit but not killed
+          this.emit(GameEventType.ENEMY_HIT);
+        }
+
+        if (bullet.pierce && bullet.pierce > 0) {
+          bullet.pierce--;
+          bullet.hitTargets?.push(enemy.id);
+        } else {
+          bullet.dead = true; // Spent on its first target
+          break;
         }
       }
     });
 
+    // Check collisions: player bullets vs boss
+    const boss = this.boss;
+    if (boss) {
+      this.bullets.forEach((bullet) => {
+        if (bullet.dead || !bullet.isPlayerBullet || boss.health <= 0) return;
+        if (CollisionDetector.bulletBossCollision(bullet, boss)) {
+          bullet.dead = true;
+          this.damageBoss(boss, bullet.damage);
+        }
+      });
+    }
+
+    // Check collisions: enemy bullets vs Base (they pass through while it is invulnerable)
+    if (this.invulnerableTime <= 0) {
+      this.bulletGrid.clear();
+      this.bullets.forEach((bullet) => {
+        if (!bullet.dead && !bullet.isPlayerBullet) {
+          this.bulletGrid.insert(bullet, { x: bullet.x, y: bullet.y }, { width: bullet.width, height: bullet.height });
+        }
+      });
+
+      this.bulletGrid.query(this.base.position, this.base.size).forEach((bullet) => {
+        // Losing a life makes the base invulnerable and clears enemy bullets for the rest of the tick
+        if (bullet.dead || this.invulnerableTime > 0 || !CollisionDetector.bulletBaseCollision(bullet, this.base)) {
+          return;
+        }
+        bullet.dead = true;
+        if (this.hasShield) {
+          // Shield absorbs damage
+          this.hasShield = false;
+          this.emit(GameEventType.SHIELD_BROKEN);
+        } else {
+          this.damageBase(bullet.damage);
+        }
+      });
+    }
+
     // Update power-ups
-    this.updatePowerUps(currentTime);
+    this.updatePowerUps(deltaTime);
     
     // Check power-up collisions
     this.checkPowerUpCollisions();
     
-    // Spawn power-ups periodically - only in level 3
-    if (this.gameState.level === 3 && currentTime - this.lastPowerUpSpawn > 15000) { // Every 15 seconds
-      if (Math.random() < 0.3) { // 30% chance
+    // Spawn power-ups periodically, per the level's rules
+    const { spawnInterval, spawnChance } = this.levelDefinition.powerUps;
+    this.powerUpSpawnTimer += deltaTime;
+    if (spawnInterval > 0 && this.powerUpSpawnTimer > spawnInterval) {
+      if (this.random.chance(spawnChance)) {
         this.spawnPowerUp(
           this.canvasWidth - 50,
-          Math.random() * (this.canvasHeight - 50)
+          this.random.range(0, this.canvasHeight - 50)
         );
-        this.lastPowerUpSpawn = currentTime;
+        this.powerUpSpawnTimer = 0;
       }
     }
 
+    this.sweepDead();
+
     // Update game state
     this.gameState.playerHealth = this.base.health;
   }
 
-  // Spawn enemies based on level and time
-  private spawnEnemies(currentTime: number): void {
-    if (currentTime - this.lastSpawnTime >= this.spawnInterval) {
-      const enemy = EnemyFactory.createRandomEnemy(
-        this.gameState.level,
+  // Give newly fired bullets their IDs and put them in play, copied into pooled objects
+  private addBullets(bullets: NewBullet[]): void {
+    bullets.forEach((bullet) => {
+      const pooled = this.bulletPool.acquire();
+      Object.assign(pooled, BULLET_DEFAULTS, bullet);
+      pooled.id = this.nextEntityId++;
+      this.bullets.push(pooled);
+    });
+  }
+
+  // Give newly spawned enemies their IDs and put them in play
+  private addEnemies(enemies: Enemy[]): void {
+    enemies.forEach((enemy) => {
+      enemy.id = this.nextEntityId++;
+      this.enemies.push(enemy);
+    });
+  }
+
+  // Remove everything marked dead - only between passes, never while one is iterating
+  private sweepDead(): void {
+    this.bulletPool.sweep(this.bullets, (bullet) => !bullet.dead);
+    this.enemies = this.enemies.filter((enemy) => !enemy.dead);
+    this.powerUps = this.powerUps.filter((powerUp) => !powerUp.dead);
+  }
+
+  // Apply a hit to the base (scaled by difficulty), losing a life if it is destroyed
+  private damageBase(amount: number): void {
+    this.base.takeDamage(Math.round(amount * this.difficultyProfile.damageTaken));
+    this.gameState.playerHealth = this.base.health;
+    this.emit(GameEventType.PLAYER_DAMAGED);
+
+    if (!this.base.isAlive()) {
+      this.loseLife();
+    }
+  }
+
+  // Respawn on the next life with a moment of invulnerability, or end the run on the last one
+  private loseLife(): void {
+    this.gameState.lives = Math.max(0, this.gameState.lives - 1);
+    this.emit(GameEventType.LIFE_LOST);
+    if (this.gameState.lives === 0) {
+      this.gameState.isGameOver = true;
+      return;
+    }
+
+    this.base.health = this.base.maxHealth;
+    this.gameState.playerHealth = this.base.health;
+    this.invulnerableTime = RESPAWN_INVULNERABILITY;
+    this.chargeTime = 0;
+    // Clear the bullets that were about to hit the respawned base
+    this.bullets.forEach((bullet) => {
+      if (!bullet.isPlayerBullet) bullet.dead = true;
+    });
+  }
+
+  // Score a kill and roll its drops - the caller marks the enemy dead
+  private killEnemy(enemy: Enemy): void {
+    const currentTime = this.clock.now();
+    const timeSinceLastKill = currentTime - this.gameState.lastKillTime;
+
+    // Combo system: if killed within 2 seconds, increase combo
+    if (timeSinceLastKill < 2000 && this.gameState.lastKillTime > 0) {
+      this.gameState.combo++;
+      this.gameState.comboMultiplier = Math.min(1 + (this.gameState.combo * 0.1), 3); // Max 3x multiplier
+    } else {
+      this.gameState.combo = 1;
+      this.gameState.comboMultiplier = 1;
+    }
+
+    this.gameState.lastKillTime = currentTime;
+
+    const points = Math.round(
+      enemy.config.points * this.gameState.comboMultiplier * this.difficultyProfile.scoreMultiplier
+    );
+    this.gameState.score += points;
+    this.gameState.enemiesKilled++;
+
+    this.emit(GameEventType.ENEMY_KILLED);
+
+    const enemyCenter = enemy.getCenter();
+    if (!this.headless) {
+      this.spawnKillEffects(enemyCenter, points);
+    }
+
+    // Random chance to drop a power-up, per the level's rules
+    const { dropChance } = this.levelDefinition.powerUps;
+    if (dropChance > 0 && this.random.chance(dropChance)) {
+      this.spawnPowerUp(enemyCenter.x, enemyCenter.y);
+    }
+
+    this.creditSquadKill(enemy, enemyCenter);
+
+    // Kills earn weapon levels
+    if (this.weapon.registerKill()) {
+      this.emit(GameEventType.WEAPON_UPGRADED);
+    }
+  }
+
+  // Turn a homing missile towards the nearest enemy or boss ahead of it
+  private steerMissile(bullet: Bullet, dt: number): void {
+    const center = { x: bullet.x + bullet.width / 2, y: bullet.y + bullet.height / 2 };
+    const targets: Position[] = this.enemies.filter((enemy) => !enemy.dead).map((enemy) => enemy.getCenter());
+    if (this.boss) {
+      targets.push({
+        x: this.boss.position.x + this.boss.size.width / 2,
+        y: this.boss.position.y + this.boss.size.height / 2,
+      });
+    }
+
+    let nearest: Position | null = null;
+    let nearestDistance = Infinity;
+    targets.forEach((target) => {
+      if (target.x < center.x) return;
+      const distance = Math.hypot(target.x - center.x, target.y - center.y);
+      if (distance < nearestDistance) {
+        nearest = target;
+        nearestDistance = distance;
+      }
+    });
+    if (!nearest) return;
+
+    const { x: targetX, y: targetY } = nearest as Position;
+    const heading = Math.atan2(bullet.vy, bullet.vx);
+    let turn = Math.atan2(targetY - center.y, targetX - center.x) - heading;
+    while (turn > Math.PI) turn -= Math.PI * 2;
+    while (turn < -Math.PI) turn += Math.PI * 2;
+    const maxTurn = (bullet.turnRate ?? 0) * dt;
+    const newHeading = heading + Math.max(-maxTurn, Math.min(maxTurn, turn));
+    const speed = Math.hypot(bullet.vx, bullet.vy);
+    bullet.vx = Math.cos(newHeading) * speed;
+    bullet.vy = Math.sin(newHeading) * speed;
+  }
+
+  // Apply the laser's damage per second to the first enemy or boss in its path
+  private updateBeam(dt: number): void {
+    if (!this.weapon.isBeamActive()) {
+      this.beamEndX = null;
+      return;
+    }
+
+    const origin = this.base.getCenter();
+    const halfWidth = this.weapon.stats.projectileSize / 2;
+    const inBeam = (x: number, y: number, width: number, height: number): boolean =>
+      x + width > origin.x && y < origin.y + halfWidth && y + height > origin.y - halfWidth;
+
+    let target: Enemy | null = null;
+    let targetX = this.canvasWidth;
+    this.enemies.forEach((enemy) => {
+      if (enemy.dead) return;
+      const { x, y } = enemy.position;
+      if (inBeam(x, y, enemy.size.width, enemy.size.height) && Math.max(x, origin.x) < targetX) {
+        target = enemy;
+        targetX = Math.max(x, origin.x);
+      }
+    });
+
+    const boss = this.boss;
+    const bossX = boss ? Math.max(boss.position.x, origin.x) : Infinity;
+    const hitsBoss =
+      boss !== null &&
+      boss.health > 0 &&
+      inBeam(boss.position.x, boss.position.y, boss.size.width, boss.size.height) &&
+      bossX < targetX;
+
+    const damage = this.weapon.stats.damage * dt;
+    if (hitsBoss && boss) {
+      this.beamEndX = bossX;
+      this.registerBeamHit(BEAM_BOSS_TARGET);
+      this.damageBoss(boss, damage, false);
+      return;
+    }
+
+    this.beamEndX = targetX;
+    const hit = target as Enemy | null;
+    if (hit) {
+      this.registerBeamHit(hit.id);
+      hit.takeDamage(damage);
+      if (!hit.isAlive()) {
+        this.killEnemy(hit);
+        hit.dead = true;
+      }
+    }
+  }
+
+  // Count the beam's first contact with each target as one hit per beam, so laser accuracy compares
+  // like for like with the shot counted when the beam lit
+  private registerBeamHit(targetId: number): void {
+    if (!this.beamTargets.has(targetId)) {
+      this.beamTargets.add(targetId);
+      this.gameState.bulletsHit++;
+    }
+  }
+
+  // Score popup and explosion particles for a kill (cosmetic only - kept off the seeded RNG)
+  private spawnKillEffects(position: Position, points: number): void {
+    // Create score popup with combo info
+    this.addScorePopup(position.x, position.y, points, 1000); // 1 second
+
+    // Create explosion particles
+    const particleCount = 15;
+    const colors = ['#FFD700', '#FF6B6B', '#4ECDC4', '#FFE66D', '#FF6B9D'];
+    for (let i = 0; i < particleCount && this.particles.length < MAX_PARTICLES; i++) {
+      const angle = (Math.PI * 2 * i) / particleCount;
+      const speed = 120 + Math.random() * 180;
+      const particle = this.particlePool.acquire();
+      particle.x = position.x;
+      particle.y = position.y;
+      particle.vx = Math.cos(angle) * speed;
+      particle.vy = Math.sin(angle) * speed;
+      particle.lifetime = 0;
+      particle.maxLifetime = 500 + Math.random() * 500;
+      particle.color = colors[Math.floor(Math.random() * colors.length)];
+      particle.size = 3 + Math.random() * 4;
+      this.particles.push(particle);
+    }
+  }
+
+  // Show a floating score, unless the screen is already full of them
+  private addScorePopup(x: number, y: number, value: number, maxLifetime: number): void {
+    if (this.scorePopups.length >= MAX_SCORE_POPUPS) return;
+    const popup = this.scorePopupPool.acquire();
+    popup.x = x;
+    popup.y = y;
+    popup.value = value;
+    popup.lifetime = 0;
+    popup.maxLifetime = maxLifetime;
+    this.scorePopups.push(popup);
+  }
+
+  // Bring in the boss for the current level
+  private spawnBoss(): void {
+    this.boss = BossFactory.createBoss(
+      this.levelDefinition,
+      this.canvasWidth,
+      this.canvasHeight,
+      this.clock.now(),
+      this.difficultyProfile
+    );
+    if (this.boss) {
+      this.emit(GameEventType.BOSS_SPAWNED);
+    }
+  }
+
+  // Fly the boss in, patrol up and down, and attack on the current phase's schedule
+  private updateBoss(deltaTime: number): void {
+    const boss = this.boss;
+    if (!boss) return;
+
+    const dt = deltaTime / 1000;
+    if (boss.isEntering) {
+      const targetX = this.canvasWidth - boss.size.width - BOSS_ENTRY_MARGIN;
+      boss.position.x = Math.max(targetX, boss.position.x - boss.speed * dt);
+      if (boss.position.x <= targetX) {
+        boss.isEntering = false;
+        boss.lastShotTime = this.clock.now();
+      }
+      return;
+    }
+
+    const phase = boss.config.phases[boss.phase];
+
+    // Vertical patrol, bouncing off top/bottom edges
+    boss.position.y += boss.verticalDirection * boss.speed * phase.speedMultiplier * dt;
+    if (boss.position.y <= 0 || boss.position.y >= this.canvasHeight - boss.size.height) {
+      boss.verticalDirection *= -1;
+    }
+    boss.position.y = Math.max(0, Math.min(this.canvasHeight - boss.size.height, boss.position.y));
+
+    const now = this.clock.now();
+    if (now - boss.lastShotTime >= boss.shootInterval) {
+      const attack = phase.attacks[boss.attackIndex % phase.attacks.length];
+      boss.attackIndex++;
+      boss.lastShotTime = now;
+      this.performBossAttack(boss, attack);
+    }
+  }
+
+  // Fire one of the boss's attack patterns through its emitter, or summon minions
+  private performBossAttack(boss: Boss, attack: BossAttackType): void {
+    const origin = {
+      x: boss.position.x,
+      y: boss.position.y + boss.size.height / 2,
+    };
+    if (attack !== BossAttackType.SUMMON) {
+      this.addBullets(
+        boss.weapons[attack].fire(origin, { target: this.base.getCenter(), targetVelocity: this.baseVelocity })
+      );
+      return;
+    }
+
+    // Two minions from the current level, just above and below the boss
+    [-1, 1].forEach((side) => {
+      const minion = EnemyFactory.createRandomEnemy(
+        this.levelDefinition,
         this.canvasWidth,
-        this.canvasHeight
+        this.canvasHeight,
+        this.random,
+        this.difficultyProfile
+      );
+      if (!minion) return;
+      minion.position.x = boss.position.x - minion.size.width;
+      minion.position.y = Math.max(
+        0,
+        Math.min(this.canvasHeight - minion.size.height, origin.y + side * 80 - minion.size.height / 2)
       );
-      if (enemy) {
-        this.enemies.push(enemy);
+      this.addEnemies([minion]);
+    });
+  }
+
+  // Apply a player hit to the boss, advancing its phase as health drops.
+  // Continuous damage (the laser) isn't counted as a hit here - updateBeam counts it once per beam -
+  // and doesn't play the hit sound
+  private damageBoss(boss: Boss, amount: number, countHit: boolean = true): void {
+    boss.health = Math.max(0, boss.health - amount);
+    if (countHit) {
+      this.gameState.bulletsHit++;
+    }
+
+    if (boss.health <= 0) {
+      this.defeatBoss(boss);
+      return;
+    }
+    if (countHit) {
+      this.emit(GameEventType.BOSS_HIT);
+    }
+
+    const healthFraction = boss.health / boss.maxHealth;
+    let phase = boss.phase;
+    while (
+      phase + 1 < boss.config.phases.length &&
+      healthFraction <= boss.config.phases[phase + 1].healthThreshold
+    ) {
+      phase++;
+    }
+    if (phase !== boss.phase) {
+      boss.phase = phase;
+      boss.attackIndex = 0;
+      boss.shootInterval = boss.config.phases[phase].shootInterval;
+    }
+  }
+
+  // Reward the player and clear the field before the next level
+  private defeatBoss(boss: Boss): void {
+    const center = {
+      x: boss.position.x + boss.size.width / 2,
+      y: boss.position.y + boss.size.height / 2,
+    };
+
+    const reward = Math.round(boss.config.reward * this.difficultyProfile.scoreMultiplier);
+    this.gameState.score += reward;
+    this.gameState.bossesDefeated++;
+    this.bombs = Math.min(BOMB_MAX, this.bombs + 1);
+    this.base.health = Math.min(this.base.maxHealth, this.base.health + boss.config.healReward);
+    this.gameState.playerHealth = this.base.health;
+
+    if (!this.headless) {
+      this.spawnKillEffects(center, reward);
+    }
+    this.spawnPowerUp(center.x, center.y, PowerUpType.WEAPON_CRATE);
+
+    // The boss's minions and bullets go down with it - marked only, as a collision pass may be iterating
+    this.enemies.forEach((enemy) => {
+      enemy.dead = true;
+    });
+    this.bullets.forEach((bullet) => {
+      if (!bullet.isPlayerBullet) {
+        bullet.dead = true;
+      }
+    });
+    this.boss = null;
+    this.levelClearTimer = LEVEL_CLEAR_DELAY;
+    this.emit(GameEventType.BOSS_DEFEATED);
+  }
+
+  // Spawn the level's continuous enemies and any scripted waves that are due
+  private spawnEnemies(deltaTime: number): void {
+    const { spawn, waves } = this.levelDefinition;
+
+    if (spawn) {
+      this.spawnTimer += deltaTime;
+      if (this.spawnTimer >= spawn.interval / this.difficultyProfile.spawnRate) {
+        if (spawn.squadChance && this.random.chance(spawn.squadChance)) {
+          // Occasionally a whole squad arrives in place of a single enemy
+          this.spawnSquad({
+            at: this.gameState.levelElapsed,
+            enemy: this.random.pick(spawn.enemies),
+            count: SQUAD_MIN_SIZE + this.random.int(SQUAD_MAX_SIZE - SQUAD_MIN_SIZE + 1),
+            formation: this.random.pick(SQUAD_FORMATIONS),
+          });
+        } else {
+          const enemy = EnemyFactory.createEnemy(
+            this.random.pick(spawn.enemies),
+            this.levelDefinition,
+            this.canvasWidth,
+            this.canvasHeight,
+            this.random,
+            this.difficultyProfile
+          );
+          if (enemy) {
+            this.addEnemies([enemy]);
+          }
+        }
+        this.spawnTimer = 0;
       }
-      this.lastSpawnTime = currentTime;
+    }
 
-      // Decrease spawn interval as level increases (more enemies)
-      this.spawnInterval = Math.max(500, 1500 - (this.gameState.level - 1) * 150);
+    while (this.nextWaveIndex < waves.length && waves[this.nextWaveIndex].at <= this.gameState.levelElapsed) {
+      this.spawnSquad(waves[this.nextWaveIndex]);
+      this.nextWaveIndex++;
+    }
+  }
+
+  // Bring in a wave's enemies together, tracked as a squad for the formation bonus
+  private spawnSquad(wave: WaveDefinition): void {
+    const enemies = EnemyFactory.createWave(
+      wave,
+      this.levelDefinition,
+      this.canvasWidth,
+      this.canvasHeight,
+      this.random,
+      this.difficultyProfile
+    );
+
+    if (enemies.length > 1) {
+      const squad: Squad = {
+        id: this.nextSquadId++,
+        size: enemies.length,
+        killed: 0,
+        bonus: wave.bonus ?? Math.round((enemies[0].config.points * enemies.length) / 2),
+      };
+      this.squads.set(squad.id, squad);
+      enemies.forEach((enemy) => {
+        enemy.squadId = squad.id;
+      });
+    }
+    this.addEnemies(enemies);
+  }
+
+  // Count a squad member's kill, paying out the bonus once the whole formation is down
+  private creditSquadKill(enemy: Enemy, position: Position): void {
+    const squad = enemy.squadId !== null ? this.squads.get(enemy.squadId) : undefined;
+    if (!squad) return;
+
+    squad.killed++;
+    if (squad.killed < squad.size) return;
+
+    this.squads.delete(squad.id);
+    const bonus = Math.round(squad.bonus * this.difficultyProfile.scoreMultiplier);
+    this.gameState.score += bonus;
+    this.emit(GameEventType.FORMATION_CLEARED);
+    if (!this.headless) {
+      this.addScorePopup(position.x, position.y - 30, bonus, 1500);
+    }
+  }
+
+  // A squad member got away, so the formation can no longer be wiped out
+  private breakSquad(enemy: Enemy): void {
+    if (enemy.squadId !== null) {
+      this.squads.delete(enemy.squadId);
     }
   }
 
   // Move to next level
   nextLevel(): void {
-    if (this.gameState.level < 3) {
-      const previousLevel = this.gameState.level;
-      this.gameState.level++;
-      this.enemies = [];
-      this.bullets = [];
-      this.gameState.levelStartTime = Date.now();
-      this.gameState.levelDuration = this.levelDurations[this.gameState.level];
-      this.lastSpawnTime = Date.now();
-      
-      // Reset health to 100 after Level 2 (only after level 2)
-      if (previousLevel === 2) {
-        this.base.health = 100;
-        this.base.maxHealth = 100;
-        this.gameState.playerHealth = 100;
-        this.gameState.maxPlayerHealth = 100;
-      }
+    // Endless mode carries on past the campaign with generated waves
+    const wave = this.gameState.level + 1 - LevelLoader.getLevelCount();
+    const next =
+      LevelLoader.getLevel(this.gameState.level + 1) ??
+      (this.mode === 'endless' ? EndlessWaveGenerator.createWave(wave, this.random) : null);
+    if (next) {
+      this.gameState.wave = Math.max(0, wave);
+      this.startLevel(next);
+      this.saveCheckpoint();
     } else {
       // Game completed
       this.gameState.isGameOver = true;
     }
   }
 
-  // Player shoots
+  // Clear the field and start a level's timer, spawns and waves from the beginning
+  private startLevel(definition: LevelDefinition): void {
+    this.gameState.level = definition.level;
+    this.levelDefinition = definition;
+    this.enemies = [];
+    this.bulletPool.releaseAll(this.bullets);
+    this.gameState.levelStartTime = this.clock.now();
+    this.gameState.levelElapsed = 0;
+    this.gameState.levelDuration = definition.duration;
+    this.spawnTimer = 0;
+    this.nextWaveIndex = 0;
+    this.squads.clear();
+    this.boss = null;
+    this.levelClearTimer = 0;
+  }
+
+  // Remember the run as it enters a level, for continues
+  private saveCheckpoint(): void {
+    this.checkpoint = {
+      score: this.gameState.score,
+      weapon: this.weapon.type,
+      weaponLevel: this.weapon.level,
+      bombs: this.bombs,
+    };
+  }
+
+  // Continues remaining this run
+  get continuesLeft(): number {
+    return MAX_CONTINUES - this.gameState.continues;
+  }
+
+  // Whether the run ended by losing the last life and still has a continue to spend
+  canContinue(): boolean {
+    return this.gameState.isGameOver && this.gameState.lives === 0 && this.continuesLeft > 0;
+  }
+
+  // Spend a continue: restart the current level from its checkpoint with full lives - returns whether it
+  // was allowed. The continue is recorded in the input log so replays and verification reproduce it
+  continueRun(): boolean {
+    if (!this.canContinue()) {
+      return false;
+    }
+    this.inputLog.push({
+      up: false,
+      down: false,
+      left: false,
+      right: false,
+      stickX: 0,
+      stickY: 0,
+      shoot: false,
+      charge: false,
+      bomb: false,
+      continue: true,
+    });
+
+    const { score, weapon, weaponLevel, bombs } = this.checkpoint;
+    this.gameState.score = score;
+    this.gameState.combo = 0;
+    this.gameState.comboMultiplier = 1;
+    this.gameState.lives = STARTING_LIVES;
+    this.gameState.continues++;
+    this.gameState.isGameOver = false;
+    this.weapon = new Weapon(weapon, weaponLevel);
+    this.bombs = bombs;
+    this.base = new Base(this.canvasWidth, this.canvasHeight);
+    this.gameState.playerHealth = this.base.health;
+    this.invulnerableTime = RESPAWN_INVULNERABILITY;
+    this.chargeTime = 0;
+    this.bombHeld = false;
+    this.powerUps = [];
+    this.activePowerUps.forEach((_, type) => this.deactivatePowerUp(type));
+    this.activePowerUps.clear();
+    this.powerUpSpawnTimer = 0;
+
+    this.startLevel(this.levelDefinition);
+    this.emit(GameEventType.RUN_CONTINUED);
+    return true;
+  }
+
+  // Fire if the cooldown has elapsed - returns whether a shot was fired
+  tryShoot(): boolean {
+    if (!this.weapon.canFire()) {
+      return false;
+    }
+    this.shoot();
+    return true;
+  }
+
+  // Player fires the current weapon (ignores cooldown - use tryShoot for player input)
   shoot(): void {
-    const center = this.base.getCenter();
-    soundManager.playShoot();
-    
-    // Multi-shot support
-    if (this.multiShotCount > 1) {
-      const spread = 0.3;
-      for (let i = 0; i < this.multiShotCount; i++) {
-        const offset = (i - (this.multiShotCount - 1) / 2) * spread;
-        this.bullets.push({
-          x: center.x,
-          y: center.y,
-          vx: 8,
-          vy: offset * 8,
-          width: 10,
-          height: 10,
-          isPlayerBullet: true,
-          damage: 20,
-        });
+    if (this.weapon.type === WeaponType.LASER) {
+      // Holding fire keeps the beam lit - only the start of a beam counts as a shot
+      const wasFiring = this.weapon.isBeamActive();
+      this.weapon.fire(this.base.getCenter(), this.shootCooldownMultiplier);
+      if (!wasFiring) {
+        this.beamTargets.clear();
+        this.gameState.bulletsShot++;
+        this.emit(GameEventType.SHOOT);
       }
-    } else {
-      this.bullets.push({
-        x: center.x,
-        y: center.y,
-        vx: 8,
-        vy: 0,
-        width: 10,
-        height: 10,
-        isPlayerBullet: true,
-        damage: 20,
-      });
+      return;
+    }
+
+    this.emit(GameEventType.SHOOT);
+    this.addBullets(this.weapon.fire(this.base.getCenter(), this.shootCooldownMultiplier, this.multiShotCount));
+    this.gameState.bulletsShot++;
+  }
+
+  // Fire the charge shot if it was held long enough - bigger and more piercing the longer the charge
+  releaseCharge(): void {
+    const chargeTime = this.chargeTime;
+    this.chargeTime = 0;
+    if (chargeTime < CHARGE_MIN_TIME) {
+      return;
     }
+
+    const charge = (chargeTime - CHARGE_MIN_TIME) / (CHARGE_MAX_TIME - CHARGE_MIN_TIME);
+    this.addBullets([Weapon.chargedShot(this.base.getCenter(), charge)]);
     this.gameState.bulletsShot++;
+    this.emit(GameEventType.CHARGE_SHOT);
   }
 
-  // Spawn power-up
-  private spawnPowerUp(x: number, y: number): void {
+  // Use a smart bomb: clear enemy bullets and damage everything on screen
+  detonateBomb(): void {
+    if (this.bombs <= 0) {
+      return;
+    }
+    this.bombs--;
+    this.bombFlash = BOMB_FLASH_DURATION;
+    this.emit(GameEventType.BOMB_DETONATED);
+
+    this.bullets.forEach((bullet) => {
+      if (!bullet.isPlayerBullet) bullet.dead = true;
+    });
+
+    this.enemies.forEach((enemy) => {
+      if (enemy.dead) return;
+      enemy.takeDamage(BOMB_DAMAGE);
+      if (!enemy.isAlive()) {
+        this.killEnemy(enemy);
+        enemy.dead = true;
+      }
+    });
+
+    if (this.boss && this.boss.health > 0 && !this.boss.isEntering) {
+      this.damageBoss(this.boss, BOMB_BOSS_DAMAGE, false);
+    }
+  }
+
+  // Spawn power-up - random unless a type is given; weapon crates hold a weapon other than the current one
+  private spawnPowerUp(x: number, y: number, forcedType?: PowerUpType): void {
     const types = [
       PowerUpType.SPEED_BOOST,
       PowerUpType.RAPID_FIRE,
       PowerUpType.SHIELD,
       PowerUpType.MULTI_SHOT,
+      PowerUpType.WEAPON_UPGRADE,
+      PowerUpType.WEAPON_CRATE,
+      PowerUpType.HEALTH,
     ];
-    const type = types[Math.floor(Math.random() * types.length)];
+    const type = forcedType ?? this.random.pick(types);
     
     this.powerUps.push({
+      id: this.nextEntityId++,
       x,
       y,
       type,
       lifetime: 0,
       maxLifetime: 10000, // 10 seconds
       size: 30,
+      weapon:
+        type === PowerUpType.WEAPON_CRATE
+          ? this.random.pick(Object.values(WeaponType).filter((weapon) => weapon !== this.weapon.type))
+          : undefined,
     });
   }
 
   // Check power-up collisions
   private checkPowerUpCollisions(): void {
-    this.powerUps.forEach((powerUp, index) => {
-      const baseCenter = this.base.getCenter();
-      const distance = Math.sqrt(
-        Math.pow(powerUp.x - baseCenter.x, 2) + Math.pow(powerUp.y - baseCenter.y, 2)
-      );
-      
-      if (distance < powerUp.size + 30) {
-        // Power-up collected!
-        this.activatePowerUp(powerUp.type);
-        soundManager.playPowerUp();
-        this.powerUps.splice(index, 1);
-        // Emit event for tracking (handled in Game.tsx)
-        if ((this as any).onPowerUpCollected) {
-          (this as any).onPowerUpCollected();
-        }
-      }
+    this.powerUpGrid.clear();
+    this.powerUps.forEach((powerUp) => {
+      if (powerUp.dead) return;
+      const { position, size } = CollisionDetector.powerUpBounds(powerUp);
+      this.powerUpGrid.insert(powerUp, position, size);
+    });
+
+    this.powerUpGrid.query(this.base.position, this.base.size).forEach((powerUp) => {
+      if (powerUp.dead || !CollisionDetector.powerUpBaseCollision(powerUp, this.base)) return;
+      // Power-up collected!
+      powerUp.dead = true;
+      this.activatePowerUp(powerUp);
+      this.emit(GameEventType.POWER_UP_COLLECTED);
     });
   }
 
   // Activate power-up
-  private activatePowerUp(type: PowerUpType): void {
+  private activatePowerUp(powerUp: PowerUp): void {
+    const { type } = powerUp;
+
+    // Weapon and health pickups take effect immediately rather than for a duration
+    if (type === PowerUpType.WEAPON_UPGRADE) {
+      if (this.weapon.levelUp()) {
+        this.emit(GameEventType.WEAPON_UPGRADED);
+      }
+      return;
+    }
+    if (type === PowerUpType.HEALTH) {
+      this.base.health = Math.min(this.base.maxHealth, this.base.health + HEALTH_PICKUP_AMOUNT);
+      this.gameState.playerHealth = this.base.health;
+      return;
+    }
+    if (type === PowerUpType.WEAPON_CRATE) {
+      // A new weapon keeps the level the player has earned
+      if (powerUp.weapon) {
+        this.weapon = new Weapon(powerUp.weapon, this.weapon.level);
+      }
+      return;
+    }
+
     const duration = 10000; // 10 seconds
-    const expiration = Date.now() + duration;
-    this.activePowerUps.set(type, expiration);
+    this.activePowerUps.set(type, duration);
 
     switch (type) {
       case PowerUpType.SPEED_BOOST:
@@ -407,19 +1259,25 @@ export class GameEngine {
     }
   }
 
-  // Update power-ups (check expiration)
-  private updatePowerUps(currentTime: number): void {
-    this.activePowerUps.forEach((expiration, type) => {
-      if (currentTime >= expiration) {
+  // Update power-ups (count down active effects)
+  private updatePowerUps(deltaTime: number): void {
+    this.activePowerUps.forEach((remaining, type) => {
+      const timeLeft = remaining - deltaTime;
+      if (timeLeft <= 0) {
         this.deactivatePowerUp(type);
         this.activePowerUps.delete(type);
+      } else {
+        this.activePowerUps.set(type, timeLeft);
       }
     });
 
-    // Update power-up lifetimes
-    this.powerUps = this.powerUps.filter((powerUp) => {
-      powerUp.lifetime += 16;
-      return powerUp.lifetime < powerUp.maxLifetime;
+    // Update power-up lifetimes, drifting them left into the player's reach
+    this.powerUps.forEach((powerUp) => {
+      powerUp.lifetime += deltaTime;
+      powerUp.x -= POWER_UP_DRIFT_SPEED * (deltaTime / 1000);
+      if (powerUp.lifetime >= powerUp.maxLifetime || powerUp.x <= -powerUp.size) {
+        powerUp.dead = true;
+      }
     });
   }
 
@@ -441,199 +1299,31 @@ export class GameEngine {
     }
   }
 
-  // Draw everything on canvas
-  draw(ctx: CanvasRenderingContext2D): void {
-    // Clear canvas
-    ctx.fillStyle = '#1a1a2e';
-    ctx.fillRect(0, 0, this.canvasWidth, this.canvasHeight);
-
-    // Draw animated starfield background
-    const time = Date.now() * 0.001;
-    ctx.fillStyle = '#FFFFFF';
-    for (let i = 0; i < 50; i++) {
-      const x = (i * 37) % this.canvasWidth;
-      const y = (i * 73 + time * 20) % this.canvasHeight;
-      const size = (Math.sin(time + i) * 0.5 + 0.5) * 2;
-      const alpha = (Math.sin(time * 2 + i) * 0.5 + 0.5) * 0.8;
-      ctx.globalAlpha = alpha;
-      ctx.beginPath();
-      ctx.arc(x, y, size, 0, Math.PI * 2);
-      ctx.fill();
-    }
-    ctx.globalAlpha = 1;
-
-    // Draw background pattern (simple grid) - more subtle
-    ctx.strokeStyle = '#16213e';
-    ctx.lineWidth = 1;
-    ctx.globalAlpha = 0.3;
-    for (let i = 0; i < this.canvasWidth; i += 50) {
-      ctx.beginPath();
-      ctx.moveTo(i, 0);
-      ctx.lineTo(i, this.canvasHeight);
-      ctx.stroke();
-    }
-    for (let i = 0; i < this.canvasHeight; i += 50) {
-      ctx.beginPath();
-      ctx.moveTo(0, i);
-      ctx.lineTo(this.canvasWidth, i);
-      ctx.stroke();
-    }
-    ctx.globalAlpha = 1;
-
-    // Draw Base
-    this.base.draw(ctx);
-
-    // Draw enemies
-    this.enemies.forEach((enemy) => enemy.draw(ctx));
-
-    // Draw bullets with improved visuals
-    this.bullets.forEach((bullet) => {
-      const centerX = bullet.x + bullet.width / 2;
-      const centerY = bullet.y + bullet.height / 2;
-      const radius = Math.max(bullet.width, bullet.height) / 2;
-
-      if (bullet.isPlayerBullet) {
-        // Player bullets - blue with glow effect
-        const gradient = ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, radius);
-        gradient.addColorStop(0, '#60A5FA'); // Bright blue center
-        gradient.addColorStop(0.5, '#3B82F6'); // Medium blue
-        gradient.addColorStop(1, '#1E40AF'); // Dark blue edge
-        
-        ctx.fillStyle = gradient;
-        ctx.beginPath();
-        ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
-        ctx.fill();
-        
-        // Add outer glow
-        ctx.shadowBlur = 8;
-        ctx.shadowColor = '#3B82F6';
-        ctx.fill();
-        ctx.shadowBlur = 0;
-      } else {
-        // Enemy bullets - red with glow effect
-        const gradient = ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, radius);
-        gradient.addColorStop(0, '#F87171'); // Bright red center
-        gradient.addColorStop(0.5, '#EF4444'); // Medium red
-        gradient.addColorStop(1, '#DC2626'); // Dark red edge
-        
-        ctx.fillStyle = gradient;
-        ctx.beginPath();
-        ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
-        ctx.fill();
-        
-        // Add outer glow
-        ctx.shadowBlur = 8;
-        ctx.shadowColor = '#EF4444';
-        ctx.fill();
-        ctx.shadowBlur = 0;
-      }
-    });
-
-    // Draw score popups
-    this.scorePopups.forEach((popup) => {
-      const alpha = 1 - (popup.lifetime / popup.maxLifetime);
-      const fontSize = 20 + (popup.lifetime / popup.maxLifetime) * 10;
-      
-      ctx.save();
-      ctx.globalAlpha = alpha;
-      ctx.font = `bold ${fontSize}px Arial`;
-      ctx.fillStyle = '#FFD700'; // Gold color
-      ctx.strokeStyle = '#000';
-      ctx.lineWidth = 2;
-      ctx.textAlign = 'center';
-      ctx.textBaseline = 'middle';
-      
-      // Draw text with outline
-      const text = `+${popup.value}`;
-      ctx.strokeText(text, popup.x, popup.y);
-      ctx.fillText(text, popup.x, popup.y);
-      
-      ctx.restore();
-    });
-
-    // Draw particles
-    this.particles.forEach((particle) => {
-      const alpha = 1 - (particle.lifetime / particle.maxLifetime);
-      ctx.save();
-      ctx.globalAlpha = alpha;
-      ctx.fillStyle = particle.color;
-      ctx.beginPath();
-      ctx.arc(particle.x, particle.y, particle.size, 0, Math.PI * 2);
-      ctx.fill();
-      ctx.restore();
-    });
-
-    // Draw power-ups
-    this.powerUps.forEach((powerUp) => {
-      const alpha = 0.5 + 0.5 * Math.sin(Date.now() * 0.005);
-      ctx.save();
-      ctx.globalAlpha = alpha;
-      
-      // Different colors for different power-ups
-      let color = '#FFD700';
-      let symbol = '⚡';
-      switch (powerUp.type) {
-        case PowerUpType.SPEED_BOOST:
-          color = '#00FF00';
-          symbol = '💨';
-          break;
-        case PowerUpType.RAPID_FIRE:
-          color = '#FF0000';
-          symbol = '🔥';
-          break;
-        case PowerUpType.SHIELD:
-          color = '#0000FF';
-          symbol = '🛡️';
-          break;
-        case PowerUpType.MULTI_SHOT:
-          color = '#FF00FF';
-          symbol = '✨';
-          break;
-      }
-      
-      // Draw glow
-      ctx.shadowBlur = 15;
-      ctx.shadowColor = color;
-      ctx.fillStyle = color;
-      ctx.beginPath();
-      ctx.arc(powerUp.x, powerUp.y, powerUp.size, 0, Math.PI * 2);
-      ctx.fill();
-      ctx.shadowBlur = 0;
-      
-      // Draw symbol
-      ctx.font = '20px Arial';
-      ctx.textAlign = 'center';
-      ctx.textBaseline = 'middle';
-      ctx.fillText(symbol, powerUp.x, powerUp.y);
-      
-      ctx.restore();
-    });
-
-    // Draw shield effect around Base if active
-    if (this.hasShield) {
-      const baseCenter = this.base.getCenter();
-      const pulse = Math.sin(Date.now() * 0.01) * 5;
-      ctx.save();
-      ctx.strokeStyle = '#00FFFF';
-      ctx.lineWidth = 3;
-      ctx.globalAlpha = 0.6;
-      ctx.beginPath();
-      ctx.arc(baseCenter.x, baseCenter.y, 40 + pulse, 0, Math.PI * 2);
-      ctx.stroke();
-      ctx.restore();
+  // Reset game - a new run gets a new seed unless one is given, and keeps the mode, difficulty and
+  // movement unless given
+  reset(
+    seed: number = SeededRandom.randomSeed(),
+    mode: GameMode = this.mode,
+    difficulty: Difficulty = this.difficulty,
+    movement: PlayerMovementMode = this.movement
+  ): void {
+    this.random = new SeededRandom(seed);
+    this.mode = mode;
+    this.difficulty = difficulty;
+    this.movement = movement;
+    this.inputLog.clear();
+    if (this.clock instanceof SimulationClock) {
+      this.clock.reset();
     }
-  }
-
-  // Reset game
-  reset(): void {
     this.base = new Base(this.canvasWidth, this.canvasHeight);
     this.enemies = [];
-    this.bullets = [];
-    this.scorePopups = [];
-    this.particles = [];
+    this.bulletPool.releaseAll(this.bullets);
+    this.scorePopupPool.releaseAll(this.scorePopups);
+    this.particlePool.releaseAll(this.particles);
     this.powerUps = [];
     this.boss = null;
-    const now = Date.now();
+    this.levelDefinition = GameEngine.getLevelDefinition(1);
+    const now = this.clock.now();
     this.gameState = {
       score: 0,
       level: 1,
@@ -642,7 +1332,8 @@ export class GameEngine {
       isGameOver: false,
       isPaused: false,
       levelStartTime: now,
-      levelDuration: this.levelDurations[1],
+      levelElapsed: 0,
+      levelDuration: this.levelDefinition.duration,
       enemiesKilled: 0,
       bulletsShot: 0,
       bulletsHit: 0,
@@ -650,9 +1341,28 @@ export class GameEngine {
       combo: 0,
       comboMultiplier: 1,
       lastKillTime: 0,
+      bossesDefeated: 0,
+      wave: 0,
+      lives: STARTING_LIVES,
+      continues: 0,
     };
-    this.lastSpawnTime = now;
-    this.lastPowerUpSpawn = now;
+    this.spawnTimer = 0;
+    this.powerUpSpawnTimer = 0;
+    this.nextWaveIndex = 0;
+    this.squads.clear();
+    this.nextSquadId = 1;
+    this.nextEntityId = 1;
+    this.levelClearTimer = 0;
+    this.moveDirection = { x: 0, y: 0 };
+    this.baseVelocity = { x: 0, y: 0 };
+    this.weapon = new Weapon();
+    this.beamEndX = null;
+    this.chargeTime = 0;
+    this.bombs = BOMB_STOCK;
+    this.bombFlash = 0;
+    this.bombHeld = false;
+    this.invulnerableTime = 0;
+    this.saveCheckpoint();
     this.activePowerUps.clear();
     this.baseSpeedMultiplier = 1;
     this.shootCooldownMultiplier = 1;
@@ -662,7 +1372,7 @@ export class GameEngine {
 
   // Update combo decay (reset combo if no kills for 2 seconds)
   private updateCombo(): void {
-    const currentTime = Date.now();
+    const currentTime = this.clock.now();
     if (this.gameState.lastKillTime > 0 && currentTime - this.gameState.lastKillTime > 2000) {
       this.gameState.combo = 0;
       this.gameState.comboMultiplier = 1;
@@ -0,0 +1,503 @@
+// Game renderer - draws engine state onto a canvas
+// Owns everything browser-specific (sprites, canvas) so GameEngine can run headless
+
+import { GameEngine } from './GameEngine';
+import { Base } from './Base';
+import { Enemy } from './Enemy';
+import { Boss, Bullet, Position, PowerUpType, WeaponType } from './types';
+import { CHARGE_MAX_TIME, WEAPON_SPECS } from './Weapon';
+import { TouchJoystick } from '../input/TouchControls';
+
+export class GameRenderer {
+  private sprites: Map<string, HTMLImageElement> = new Map();
+
+  // Load a sprite once and reuse it (returns null outside the browser)
+  private getSprite(path: string): HTMLImageElement | null {
+    if (typeof window === 'undefined' || typeof Image === 'undefined') {
+      return null;
+    }
+    let sprite = this.sprites.get(path);
+    if (!sprite) {
+      sprite = new Image();
+      sprite.src = path;
+      this.sprites.set(path, sprite);
+    }
+    return sprite;
+  }
+
+  // Draw everything on canvas
+  draw(ctx: CanvasRenderingContext2D, engine: GameEngine): void {
+    // Clear canvas
+    ctx.fillStyle = '#1a1a2e';
+    ctx.fillRect(0, 0, engine.canvasWidth, engine.canvasHeight);
+
+    // Draw animated starfield background
+    const time = Date.now() * 0.001;
+    ctx.fillStyle = '#FFFFFF';
+    for (let i = 0; i < 50; i++) {
+      const x = (i * 37) % engine.canvasWidth;
+      const y = (i * 73 + time * 20) % engine.canvasHeight;
+      const size = (Math.sin(time + i) * 0.5 + 0.5) * 2;
+      const alpha = (Math.sin(time * 2 + i) * 0.5 + 0.5) * 0.8;
+      ctx.globalAlpha = alpha;
+      ctx.beginPath();
+      ctx.arc(x, y, size, 0, Math.PI * 2);
+      ctx.fill();
+    }
+    ctx.globalAlpha = 1;
+
+    // Draw background pattern (simple grid) - more subtle
+    ctx.strokeStyle = '#16213e';
+    ctx.lineWidth = 1;
+    ctx.globalAlpha = 0.3;
+    for (let i = 0; i < engine.canvasWidth; i += 50) {
+      ctx.beginPath();
+      ctx.moveTo(i, 0);
+      ctx.lineTo(i, engine.canvasHeight);
+      ctx.stroke();
+    }
+    for (let i = 0; i < engine.canvasHeight; i += 50) {
+      ctx.beginPath();
+      ctx.moveTo(0, i);
+      ctx.lineTo(engine.canvasWidth, i);
+      ctx.stroke();
+    }
+    ctx.globalAlpha = 1;
+
+    // Mark the edge of the free movement play area
+    if (engine.movement === 'free') {
+      const bounds = engine.movementBounds;
+      const edgeX = bounds.maxX + engine.base.size.width;
+      ctx.save();
+      ctx.strokeStyle = 'rgba(59, 130, 246, 0.3)';
+      ctx.setLineDash([8, 8]);
+      ctx.beginPath();
+      ctx.moveTo(edgeX, bounds.minY);
+      ctx.lineTo(edgeX, bounds.maxY + engine.base.size.height);
+      ctx.stroke();
+      ctx.restore();
+    }
+
+    // Draw Base, blinking while it is invulnerable after a respawn
+    if (engine.invulnerableTime <= 0 || Math.floor(engine.invulnerableTime / 100) % 2 === 0) {
+      this.drawBase(ctx, engine.base);
+    }
+
+    // Draw enemies
+    engine.enemies.forEach((enemy) => this.drawEnemy(ctx, enemy));
+
+    // Draw boss
+    if (engine.boss) {
+      this.drawBoss(ctx, engine.boss);
+    }
+
+    // Draw laser beam
+    if (engine.beamEndX !== null) {
+      this.drawBeam(ctx, engine.base.getCenter(), engine.beamEndX, engine.weapon.stats.projectileSize);
+    }
+
+    // Draw bullets with improved visuals
+    engine.bullets.forEach((bullet) => {
+      const centerX = bullet.x + bullet.width / 2;
+      const centerY = bullet.y + bullet.height / 2;
+      const radius = Math.max(bullet.width, bullet.height) / 2;
+
+      if (bullet.charged) {
+        this.drawChargedShot(ctx, bullet);
+      } else if (bullet.isPlayerBullet && bullet.weapon && bullet.weapon !== WeaponType.BLASTER) {
+        this.drawWeaponProjectile(ctx, bullet);
+      } else if (bullet.isPlayerBullet) {
+        // Player bullets - blue with glow effect
+        const gradient = ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, radius);
+        gradient.addColorStop(0, '#60A5FA'); // Bright blue center
+        gradient.addColorStop(0.5, '#3B82F6'); // Medium blue
+        gradient.addColorStop(1, '#1E40AF'); // Dark blue edge
+        
+        ctx.fillStyle = gradient;
+        ctx.beginPath();
+        ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
+        ctx.fill();
+        
+        // Add outer glow
+        ctx.shadowBlur = 8;
+        ctx.shadowColor = '#3B82F6';
+        ctx.fill();
+        ctx.shadowBlur = 0;
+      } else {
+        // Enemy bullets - red with glow effect
+        const gradient = ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, radius);
+        gradient.addColorStop(0, '#F87171'); // Bright red center
+        gradient.addColorStop(0.5, '#EF4444'); // Medium red
+        gradient.addColorStop(1, '#DC2626'); // Dark red edge
+        
+        ctx.fillStyle = gradient;
+        ctx.beginPath();
+        ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
+        ctx.fill();
+        
+        // Add outer glow
+        ctx.shadowBlur = 8;
+        ctx.shadowColor = '#EF4444';
+        ctx.fill();
+        ctx.shadowBlur = 0;
+      }
+    });
+
+    // Draw score popups
+    engine.scorePopups.forEach((popup) => {
+      const alpha = 1 - (popup.lifetime / popup.maxLifetime);
+      const fontSize = 20 + (popup.lifetime / popup.maxLifetime) * 10;
+      
+      ctx.save();
+      ctx.globalAlpha = alpha;
+      ctx.font = `bold ${fontSize}px Arial`;
+      ctx.fillStyle = '#FFD700'; // Gold color
+      ctx.strokeStyle = '#000';
+      ctx.lineWidth = 2;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      
+      // Draw text with outline
+      const text = `+${popup.value}`;
+      ctx.strokeText(text, popup.x, popup.y);
+      ctx.fillText(text, popup.x, popup.y);
+      
+      ctx.restore();
+    });
+
+    // Draw particles
+    engine.particles.forEach((particle) => {
+      const alpha = 1 - (particle.lifetime / particle.maxLifetime);
+      ctx.save();
+      ctx.globalAlpha = alpha;
+      ctx.fillStyle = particle.color;
+      ctx.beginPath();
+      ctx.arc(particle.x, particle.y, particle.size, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.restore();
+    });
+
+    // Draw power-ups
+    engine.powerUps.forEach((powerUp) => {
+      const alpha = 0.5 + 0.5 * Math.sin(Date.now() * 0.005);
+      ctx.save();
+      ctx.globalAlpha = alpha;
+      
+      // Different colors for different power-ups
+      let color = '#FFD700';
+      let symbol = '⚡';
+      switch (powerUp.type) {
+        case PowerUpType.SPEED_BOOST:
+          color = '#00FF00';
+          symbol = '💨';
+          break;
+        case PowerUpType.RAPID_FIRE:
+          color = '#FF0000';
+          symbol = '🔥';
+          break;
+        case PowerUpType.SHIELD:
+          color = '#0000FF';
+          symbol = '🛡️';
+          break;
+        case PowerUpType.MULTI_SHOT:
+          color = '#FF00FF';
+          symbol = '✨';
+          break;
+        case PowerUpType.WEAPON_UPGRADE:
+          color = '#FFA500';
+          symbol = '⬆️';
+          break;
+        case PowerUpType.HEALTH:
+          color = '#EF4444';
+          symbol = '❤️';
+          break;
+        case PowerUpType.WEAPON_CRATE:
+          color = '#FFFFFF';
+          symbol = powerUp.weapon ? WEAPON_SPECS[powerUp.weapon].icon : '🎁';
+          break;
+      }
+      
+      // Draw glow
+      ctx.shadowBlur = 15;
+      ctx.shadowColor = color;
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.arc(powerUp.x, powerUp.y, powerUp.size, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.shadowBlur = 0;
+      
+      // Draw symbol
+      ctx.font = '20px Arial';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(symbol, powerUp.x, powerUp.y);
+      
+      ctx.restore();
+    });
+
+    // Draw charge building up around the Base
+    if (engine.chargeTime > 0) {
+      const baseCenter = engine.base.getCenter();
+      const charge = engine.chargeTime / CHARGE_MAX_TIME;
+      ctx.save();
+      ctx.strokeStyle = charge >= 1 ? '#FDE047' : '#C084FC';
+      ctx.lineWidth = 4;
+      ctx.shadowBlur = 10 + charge * 20;
+      ctx.shadowColor = ctx.strokeStyle;
+      ctx.beginPath();
+      ctx.arc(baseCenter.x, baseCenter.y, 36, -Math.PI / 2, -Math.PI / 2 + Math.PI * 2 * charge);
+      ctx.stroke();
+      ctx.restore();
+    }
+
+    // Draw shield effect around Base if active
+    if (engine.hasShield) {
+      const baseCenter = engine.base.getCenter();
+      const pulse = Math.sin(Date.now() * 0.01) * 5;
+      ctx.save();
+      ctx.strokeStyle = '#00FFFF';
+      ctx.lineWidth = 3;
+      ctx.globalAlpha = 0.6;
+      ctx.beginPath();
+      ctx.arc(baseCenter.x, baseCenter.y, 40 + pulse, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.restore();
+    }
+
+    // Smart bomb flash over everything
+    if (engine.bombFlash > 0) {
+      ctx.save();
+      ctx.globalAlpha = Math.min(1, engine.bombFlash / 400) * 0.8;
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillRect(0, 0, engine.canvasWidth, engine.canvasHeight);
+      ctx.restore();
+    }
+
+    // Draw boss health bar across the top of the screen
+    if (engine.boss) {
+      this.drawBossHealthBar(ctx, engine.boss, engine.canvasWidth);
+    }
+  }
+
+  // Draw the virtual joystick over the game while a touch is steering it
+  drawJoystick(ctx: CanvasRenderingContext2D, joystick: TouchJoystick): void {
+    ctx.save();
+    ctx.globalAlpha = 0.35;
+    ctx.fillStyle = '#1F2937';
+    ctx.strokeStyle = '#FFFFFF';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.arc(joystick.origin.x, joystick.origin.y, joystick.radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+
+    ctx.globalAlpha = 0.6;
+    ctx.fillStyle = '#3B82F6';
+    ctx.beginPath();
+    ctx.arc(joystick.knob.x, joystick.knob.y, joystick.radius * 0.4, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+  }
+
+  // Draw Base
+  private drawBase(ctx: CanvasRenderingContext2D, base: Base): void {
+    const image = this.getSprite(base.imagePath);
+    if (image && image.complete) {
+      ctx.drawImage(
+        image,
+        base.position.x,
+        base.position.y,
+        base.size.width,
+        base.size.height
+      );
+    } else {
+      // Fallback rectangle if image not loaded
+      ctx.fillStyle = '#3B82F6';
+      ctx.fillRect(
+        base.position.x,
+        base.position.y,
+        base.size.width,
+        base.size.height
+      );
+    }
+  }
+
+  // Draw enemy with its health bar
+  private drawEnemy(ctx: CanvasRenderingContext2D, enemy: Enemy): void {
+    const image = this.getSprite(enemy.config.imagePath);
+    if (image && image.complete) {
+      ctx.drawImage(
+        image,
+        enemy.position.x,
+        enemy.position.y,
+        enemy.size.width,
+        enemy.size.height
+      );
+    } else {
+      // Fallback rectangle if image not loaded
+      ctx.fillStyle = enemy.config.level === 1 ? '#10B981' : 
+                      enemy.config.level === 2 ? '#F59E0B' : '#EF4444';
+      ctx.fillRect(
+        enemy.position.x,
+        enemy.position.y,
+        enemy.size.width,
+        enemy.size.height
+      );
+    }
+
+    // Draw health bar
+    const barWidth = enemy.size.width;
+    const barHeight = 4;
+    const healthPercent = enemy.health / enemy.maxHealth;
+
+    ctx.fillStyle = '#FF0000';
+    ctx.fillRect(
+      enemy.position.x,
+      enemy.position.y - 8,
+      barWidth,
+      barHeight
+    );
+
+    ctx.fillStyle = '#00FF00';
+    ctx.fillRect(
+      enemy.position.x,
+      enemy.position.y - 8,
+      barWidth * healthPercent,
+      barHeight
+    );
+  }
+
+  // Draw the laser from the Base to where it stopped, with a flickering core
+  private drawBeam(ctx: CanvasRenderingContext2D, origin: Position, endX: number, width: number): void {
+    const flicker = 0.8 + Math.random() * 0.2;
+
+    ctx.save();
+    ctx.shadowBlur = 20;
+    ctx.shadowColor = '#F0ABFC';
+    ctx.fillStyle = `rgba(217, 70, 239, ${0.6 * flicker})`;
+    ctx.fillRect(origin.x, origin.y - width / 2, endX - origin.x, width);
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(origin.x, origin.y - width / 6, endX - origin.x, width / 3);
+    ctx.restore();
+  }
+
+  // Draw a released charge shot as a pulsing energy orb
+  private drawChargedShot(ctx: CanvasRenderingContext2D, bullet: Bullet): void {
+    const centerX = bullet.x + bullet.width / 2;
+    const centerY = bullet.y + bullet.height / 2;
+    const radius = bullet.width / 2;
+    const gradient = ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, radius);
+    gradient.addColorStop(0, '#FFFFFF');
+    gradient.addColorStop(0.4, '#E9D5FF');
+    gradient.addColorStop(1, '#9333EA');
+
+    ctx.save();
+    ctx.shadowBlur = 20;
+    ctx.shadowColor = '#A855F7';
+    ctx.fillStyle = gradient;
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+  }
+
+  // Draw a projectile from one of the non-blaster weapons, oriented along its velocity
+  private drawWeaponProjectile(ctx: CanvasRenderingContext2D, bullet: Bullet): void {
+    const centerX = bullet.x + bullet.width / 2;
+    const centerY = bullet.y + bullet.height / 2;
+
+    ctx.save();
+    ctx.translate(centerX, centerY);
+    ctx.rotate(Math.atan2(bullet.vy, bullet.vx));
+
+    switch (bullet.weapon) {
+      case WeaponType.HOMING:
+        // Missile body with an exhaust flame
+        ctx.fillStyle = '#F97316';
+        ctx.fillRect(-bullet.width, -bullet.height / 4, bullet.width * 1.5, bullet.height / 2);
+        ctx.fillStyle = '#FDE047';
+        ctx.beginPath();
+        ctx.moveTo(-bullet.width, -bullet.height / 4);
+        ctx.lineTo(-bullet.width * 1.6, 0);
+        ctx.lineTo(-bullet.width, bullet.height / 4);
+        ctx.fill();
+        break;
+      case WeaponType.RAIL:
+        // Long bright streak
+        ctx.shadowBlur = 12;
+        ctx.shadowColor = '#22D3EE';
+        ctx.fillStyle = '#A5F3FC';
+        ctx.fillRect(-bullet.width * 4, -bullet.height / 4, bullet.width * 5, bullet.height / 2);
+        break;
+      default:
+        // Spread cannon pellet
+        ctx.fillStyle = '#FACC15';
+        ctx.beginPath();
+        ctx.arc(0, 0, bullet.width / 2, 0, Math.PI * 2);
+        ctx.fill();
+        break;
+    }
+    ctx.restore();
+  }
+
+  // Draw boss sprite with a glow that intensifies in later phases
+  private drawBoss(ctx: CanvasRenderingContext2D, boss: Boss): void {
+    const phaseColors = ['#F59E0B', '#F97316', '#EF4444'];
+    const glowColor = phaseColors[Math.min(boss.phase, phaseColors.length - 1)];
+    const pulse = Math.sin(Date.now() * 0.008) * 0.5 + 0.5;
+
+    ctx.save();
+    ctx.shadowBlur = 15 + pulse * 15 * (boss.phase + 1);
+    ctx.shadowColor = glowColor;
+
+    const image = this.getSprite(boss.config.imagePath);
+    if (image && image.complete) {
+      ctx.drawImage(
+        image,
+        boss.position.x,
+        boss.position.y,
+        boss.size.width,
+        boss.size.height
+      );
+    } else {
+      // Fallback rectangle if image not loaded
+      ctx.fillStyle = glowColor;
+      ctx.fillRect(
+        boss.position.x,
+        boss.position.y,
+        boss.size.width,
+        boss.size.height
+      );
+    }
+    ctx.restore();
+  }
+
+  // Draw boss name, phase and health bar
+  private drawBossHealthBar(ctx: CanvasRenderingContext2D, boss: Boss, canvasWidth: number): void {
+    const barWidth = canvasWidth * 0.6;
+    const barHeight = 12;
+    const x = (canvasWidth - barWidth) / 2;
+    const y = 28;
+    const healthPercent = boss.health / boss.maxHealth;
+
+    ctx.save();
+    ctx.font = 'bold 16px Arial';
+    ctx.fillStyle = '#FFFFFF';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'bottom';
+    ctx.fillText(
+      `${boss.config.name} - Phase ${boss.phase + 1}/${boss.config.phases.length}`,
+      canvasWidth / 2,
+      y - 4
+    );
+
+    ctx.fillStyle = '#450A0A';
+    ctx.fillRect(x, y, barWidth, barHeight);
+    ctx.fillStyle = '#EF4444';
+    ctx.fillRect(x, y, barWidth * healthPercent, barHeight);
+    ctx.strokeStyle = '#FFFFFF';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(x, y, barWidth, barHeight);
+    ctx.restore();
+  }
+}
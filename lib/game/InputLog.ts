@@ -0,0 +1,167 @@
+// Input log - compact per-tick record of player input for replays and verification
+// Each tick is packed into a bitmask and consecutive identical ticks are run-length encoded
+// Analog stick axes take 5 bits each above the buttons: 4 bits of magnitude in eighths, then a sign bit
+
+import { Difficulty, FrameInput, GameMode, PlayArea, PlayerMovementMode } from './types';
+
+const INPUT_UP = 1;
+const INPUT_DOWN = 2;
+const INPUT_SHOOT = 4;
+const INPUT_CHARGE = 8;
+const INPUT_BOMB = 16;
+const INPUT_CONTINUE = 32;
+const INPUT_LEFT = 64;
+const INPUT_RIGHT = 128;
+const INPUT_ALL =
+  INPUT_UP | INPUT_DOWN | INPUT_SHOOT | INPUT_CHARGE | INPUT_BOMB | INPUT_CONTINUE | INPUT_LEFT | INPUT_RIGHT;
+
+export const STICK_STEPS = 8; // Analog positions per direction
+const STICK_X_SHIFT = 8;
+const STICK_Y_SHIFT = 13;
+const STICK_MAGNITUDE_MASK = 15;
+const STICK_SIGN = 16;
+const STICK_AXIS_MASK = STICK_MAGNITUDE_MASK | STICK_SIGN;
+
+// Round an axis to the nearest recordable position
+export function quantizeAxis(value: number): number {
+  const steps = Math.round(Math.max(-1, Math.min(1, value)) * STICK_STEPS);
+  return steps / STICK_STEPS || 0; // Avoid -0
+}
+
+function encodeAxis(value: number): number {
+  const steps = Math.round(quantizeAxis(value) * STICK_STEPS);
+  return steps < 0 ? STICK_SIGN | -steps : steps;
+}
+
+// Axis from its 5 bits, or null if they don't describe a position on the stick
+function decodeAxis(bits: number): number | null {
+  const magnitude = bits & STICK_MAGNITUDE_MASK;
+  if (magnitude > STICK_STEPS || (magnitude === 0 && bits !== 0)) {
+    return null;
+  }
+  return (bits & STICK_SIGN ? -magnitude : magnitude) / STICK_STEPS;
+}
+
+// Everything needed to re-simulate a finished run
+export interface RunRecording {
+  version: number; // SIMULATION_VERSION the run was recorded with
+  mode: GameMode;
+  difficulty: Difficulty;
+  movement: PlayerMovementMode;
+  playArea: PlayArea; // Free movement bounds the run was played with
+  seed: number;
+  width: number; // Logical play field, always WORLD_WIDTH x WORLD_HEIGHT
+  height: number;
+  ticks: number;
+  inputs: string; // Encoded InputLog
+  score: number; // Score reported by the recording client
+  level: number;
+  wave: number;
+  recordedAt: number;
+}
+
+export function encodeInput(input: FrameInput): number {
+  return (
+    (input.up ? INPUT_UP : 0) |
+    (input.down ? INPUT_DOWN : 0) |
+    (input.left ? INPUT_LEFT : 0) |
+    (input.right ? INPUT_RIGHT : 0) |
+    (input.shoot ? INPUT_SHOOT : 0) |
+    (input.charge ? INPUT_CHARGE : 0) |
+    (input.bomb ? INPUT_BOMB : 0) |
+    (input.continue ? INPUT_CONTINUE : 0) |
+    (encodeAxis(input.stickX) << STICK_X_SHIFT) |
+    (encodeAxis(input.stickY) << STICK_Y_SHIFT)
+  );
+}
+
+// Whether a bitmask could have come from encodeInput
+function isValidInput(bits: number): boolean {
+  const stickBits = (STICK_AXIS_MASK << STICK_X_SHIFT) | (STICK_AXIS_MASK << STICK_Y_SHIFT);
+  return (
+    (bits & ~(INPUT_ALL | stickBits)) === 0 &&
+    decodeAxis((bits >> STICK_X_SHIFT) & STICK_AXIS_MASK) !== null &&
+    decodeAxis((bits >> STICK_Y_SHIFT) & STICK_AXIS_MASK) !== null
+  );
+}
+
+export function decodeInput(bits: number): FrameInput {
+  return {
+    up: (bits & INPUT_UP) !== 0,
+    down: (bits & INPUT_DOWN) !== 0,
+    left: (bits & INPUT_LEFT) !== 0,
+    right: (bits & INPUT_RIGHT) !== 0,
+    stickX: decodeAxis((bits >> STICK_X_SHIFT) & STICK_AXIS_MASK) ?? 0,
+    stickY: decodeAxis((bits >> STICK_Y_SHIFT) & STICK_AXIS_MASK) ?? 0,
+    shoot: (bits & INPUT_SHOOT) !== 0,
+    charge: (bits & INPUT_CHARGE) !== 0,
+    bomb: (bits & INPUT_BOMB) !== 0,
+    continue: (bits & INPUT_CONTINUE) !== 0,
+  };
+}
+
+export class InputLog {
+  private runs: [number, number][] = []; // [bitmask, tick count]
+  private tickCount: number = 0;
+
+  // Append one tick of input
+  push(input: FrameInput): void {
+    const bits = encodeInput(input);
+    const last = this.runs[this.runs.length - 1];
+    if (last && last[0] === bits) {
+      last[1]++;
+    } else {
+      this.runs.push([bits, 1]);
+    }
+    this.tickCount++;
+  }
+
+  // Number of ticks recorded
+  get length(): number {
+    return this.tickCount;
+  }
+
+  clear(): void {
+    this.runs = [];
+    this.tickCount = 0;
+  }
+
+  // Expand to one FrameInput per tick
+  toFrames(): FrameInput[] {
+    const frames: FrameInput[] = [];
+    this.runs.forEach(([bits, count]) => {
+      const input = decodeInput(bits);
+      for (let i = 0; i < count; i++) {
+        frames.push(input);
+      }
+    });
+    return frames;
+  }
+
+  // Serialize as "bits:count" pairs in base 36, e.g. "0:1k,4:a"
+  encode(): string {
+    return this.runs.map(([bits, count]) => `${bits.toString(36)}:${count.toString(36)}`).join(',');
+  }
+
+  // Parse an encoded log - throws on malformed input
+  static decode(encoded: string): InputLog {
+    const log = new InputLog();
+    if (encoded === '') {
+      return log;
+    }
+    encoded.split(',').forEach((pair) => {
+      const match = /^([0-9a-z]+):([0-9a-z]+)$/.exec(pair);
+      if (!match) {
+        throw new Error(`Malformed input log entry: ${pair}`);
+      }
+      const bits = parseInt(match[1], 36);
+      const count = parseInt(match[2], 36);
+      if (!isValidInput(bits) || count <= 0) {
+        throw new Error(`Invalid input log entry: ${pair}`);
+      }
+      log.runs.push([bits, count]);
+      log.tickCount += count;
+    });
+    return log;
+  }
+}
@@ -0,0 +1,20 @@
+// Level loader - serves the campaign defined in levels/campaign.json
+
+import { LevelDefinition } from './types';
+import { validateCampaign } from './levels/validateCampaign';
+import campaign from './levels/campaign.json';
+
+export class LevelLoader {
+  // Validated once at load time so a broken campaign file fails fast
+  private static levels: LevelDefinition[] = validateCampaign(campaign);
+
+  // Get a level's definition (1-based), or null past the last level
+  static getLevel(level: number): LevelDefinition | null {
+    return this.levels[level - 1] ?? null;
+  }
+
+  // Number of levels in the campaign
+  static getLevelCount(): number {
+    return this.levels.length;
+  }
+}
@@ -0,0 +1,50 @@
+// Object pool - recycles short-lived objects (bullets, particles, popups) so busy scenes don't churn the garbage collector
+
+export class ObjectPool<T> {
+  private available: T[] = [];
+  private create: () => T;
+  private capacity: number; // Most spare objects kept - anything released beyond this is left to the collector
+
+  constructor(create: () => T, capacity: number) {
+    this.create = create;
+    this.capacity = capacity;
+  }
+
+  // A spare object, or a new one if none are left - callers must overwrite every field
+  acquire(): T {
+    return this.available.pop() ?? this.create();
+  }
+
+  // Hand an object back once nothing refers to it
+  release(item: T): void {
+    if (this.available.length < this.capacity) {
+      this.available.push(item);
+    }
+  }
+
+  // Remove every item that fails keep from the array in place, releasing each one - replaces
+  // filter() so the array itself isn't reallocated every tick
+  sweep(items: T[], keep: (item: T) => boolean): void {
+    let kept = 0;
+    for (let i = 0; i < items.length; i++) {
+      const item = items[i];
+      if (keep(item)) {
+        items[kept++] = item;
+      } else {
+        this.release(item);
+      }
+    }
+    items.length = kept;
+  }
+
+  // Release everything in the array and empty it
+  releaseAll(items: T[]): void {
+    items.forEach((item) => this.release(item));
+    items.length = 0;
+  }
+
+  // Spare objects currently held
+  get size(): number {
+    return this.available.length;
+  }
+}
@@ -0,0 +1,46 @@
+// Seedable pseudo-random number generator (mulberry32)
+// Every gameplay decision draws from this so a seed + inputs reproduce a run exactly
+
+export class SeededRandom {
+  public readonly seed: number;
+  private state: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  // Create a fresh seed for a new run
+  static randomSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0;
+  }
+
+  // Float in [0, 1)
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  // Float in [min, max)
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  // Integer in [0, maxExclusive)
+  int(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  // Random element of a non-empty array
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)];
+  }
+
+  // True with the given probability
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+}
@@ -0,0 +1,97 @@
+// Spatial hash - uniform grid broadphase so collision checks only consider nearby objects
+
+import { Position, Size } from './types';
+
+interface Entry<T> {
+  item: T;
+  order: number; // Insertion order, so query results don't depend on grid layout
+  stamp: number; // Last query that collected this entry, so one in several cells is returned once
+}
+
+const byInsertionOrder = <T,>(a: Entry<T>, b: Entry<T>): number => a.order - b.order;
+
+export class SpatialHash<T> {
+  private cellSize: number;
+  private cells: Map<number, Entry<T>[]> = new Map();
+  private count: number = 0;
+  private queryStamp: number = 0;
+  private found: Entry<T>[] = []; // Scratch space reused by every query
+  private results: T[] = [];
+
+  constructor(cellSize: number) {
+    this.cellSize = cellSize;
+  }
+
+  // Empty the grid - it is rebuilt from scratch every tick
+  clear(): void {
+    this.cells.clear();
+    this.count = 0;
+  }
+
+  // Add an item to every cell its bounding box touches
+  insert(item: T, position: Position, size: Size): void {
+    const entry: Entry<T> = { item, order: this.count++, stamp: 0 };
+    this.forEachCell(position, size, (key) => {
+      const cell = this.cells.get(key);
+      if (cell) {
+        cell.push(entry);
+      } else {
+        this.cells.set(key, [entry]);
+      }
+    });
+  }
+
+  // Items whose cells overlap the box, in the order they were inserted - callers still run the exact test.
+  // Runs for every bullet every tick, so it allocates nothing: the returned array is reused and only
+  // valid until the next query
+  query(position: Position, size: Size): T[] {
+    const stamp = ++this.queryStamp;
+    const found = this.found;
+    found.length = 0;
+
+    const minX = Math.floor(position.x / this.cellSize);
+    const minY = Math.floor(position.y / this.cellSize);
+    const maxX = Math.floor((position.x + size.width) / this.cellSize);
+    const maxY = Math.floor((position.y + size.height) / this.cellSize);
+    for (let cellX = minX; cellX <= maxX; cellX++) {
+      for (let cellY = minY; cellY <= maxY; cellY++) {
+        const cell = this.cells.get(SpatialHash.key(cellX, cellY));
+        if (!cell) continue;
+        for (let i = 0; i < cell.length; i++) {
+          const entry = cell[i];
+          if (entry.stamp !== stamp) {
+            entry.stamp = stamp;
+            found.push(entry);
+          }
+        }
+      }
+    }
+
+    if (found.length > 1) {
+      found.sort(byInsertionOrder);
+    }
+    const results = this.results;
+    results.length = found.length;
+    for (let i = 0; i < found.length; i++) {
+      results[i] = found[i].item;
+    }
+    return results;
+  }
+
+  private forEachCell(position: Position, size: Size, callback: (key: number) => void): void {
+    const minX = Math.floor(position.x / this.cellSize);
+    const minY = Math.floor(position.y / this.cellSize);
+    const maxX = Math.floor((position.x + size.width) / this.cellSize);
+    const maxY = Math.floor((position.y + size.height) / this.cellSize);
+    for (let cellX = minX; cellX <= maxX; cellX++) {
+      for (let cellY = minY; cellY <= maxY; cellY++) {
+        callback(SpatialHash.key(cellX, cellY));
+      }
+    }
+  }
+
+  // Unique per cell as long as rows stay within +/-32768 - far beyond anything on or near the screen
+  private static key(cellX: number, cellY: number): number {
+    return cellX * 65536 + cellY;
+  }
+}
@@ -0,0 +1,63 @@
+// Viewport - fits the logical world into a canvas of any size, letterboxed and at the device's pixel ratio
+
+import { Position } from './types';
+import { WORLD_HEIGHT, WORLD_WIDTH } from './world';
+
+const LETTERBOX_COLOR = '#000000';
+
+export class Viewport {
+  public scale: number = 1; // CSS px per world unit
+  public offsetX: number = 0; // CSS px of letterbox left of the world
+  public offsetY: number = 0; // CSS px of letterbox above the world
+  private pixelRatio: number = 1;
+  private cssWidth: number = 0;
+  private cssHeight: number = 0;
+
+  // Match the canvas backing store to its displayed size - cheap to call every frame
+  fit(canvas: HTMLCanvasElement, pixelRatio: number): void {
+    const cssWidth = canvas.clientWidth;
+    const cssHeight = canvas.clientHeight;
+    if (cssWidth === this.cssWidth && cssHeight === this.cssHeight && pixelRatio === this.pixelRatio) {
+      return;
+    }
+
+    this.cssWidth = cssWidth;
+    this.cssHeight = cssHeight;
+    this.pixelRatio = pixelRatio;
+    canvas.width = Math.max(1, Math.round(cssWidth * pixelRatio));
+    canvas.height = Math.max(1, Math.round(cssHeight * pixelRatio));
+
+    // Largest uniform scale that fits the world, centred with bars on the spare sides
+    this.scale = Math.min(cssWidth / WORLD_WIDTH, cssHeight / WORLD_HEIGHT) || 1;
+    this.offsetX = (cssWidth - WORLD_WIDTH * this.scale) / 2;
+    this.offsetY = (cssHeight - WORLD_HEIGHT * this.scale) / 2;
+  }
+
+  // Paint the letterbox and set ctx up to draw in world coordinates, clipped to the world
+  begin(ctx: CanvasRenderingContext2D): void {
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.fillStyle = LETTERBOX_COLOR;
+    ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+
+    const ratio = this.pixelRatio;
+    ctx.setTransform(this.scale * ratio, 0, 0, this.scale * ratio, this.offsetX * ratio, this.offsetY * ratio);
+    ctx.beginPath();
+    ctx.rect(0, 0, WORLD_WIDTH, WORLD_HEIGHT);
+    ctx.clip();
+  }
+
+  // Undo begin()
+  end(ctx: CanvasRenderingContext2D): void {
+    ctx.restore();
+  }
+
+  // World position under a point on screen (client px, e.g. from a pointer event)
+  toWorld(canvas: HTMLCanvasElement, clientX: number, clientY: number): Position {
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (clientX - rect.left - canvas.clientLeft - this.offsetX) / this.scale,
+      y: (clientY - rect.top - canvas.clientTop - this.offsetY) / this.scale,
+    };
+  }
+}
@@ -0,0 +1,181 @@
+// Player weapons - per-weapon stats by level, cooldown and in-run level-ups, plus the charge shot
+
+import { NewBullet, Position, WeaponStats, WeaponType } from './types';
+
+export const WEAPON_MAX_LEVEL = 3;
+
+const BEAM_HOLD = 100; // ms the laser stays on after each fire, so holding fire keeps it lit
+const MULTI_SHOT_SPREAD = 0.3; // Radians between the copies fired by the multi-shot power-up
+const KILLS_PER_LEVEL = [15, 25]; // Kills needed to reach level 2, then level 3
+
+export const CHARGE_MIN_TIME = 250; // ms of charge before a release fires anything
+export const CHARGE_MAX_TIME = 1500; // ms to reach a full charge
+
+export const WEAPON_SPECS: Record<WeaponType, { name: string; icon: string; levels: WeaponStats[] }> = {
+  [WeaponType.BLASTER]: {
+    name: 'Blaster',
+    icon: '🔫',
+    levels: [
+      { damage: 20, cooldown: 1500, projectileSpeed: 480, projectileCount: 1, spread: 0, projectileSize: 10 },
+      { damage: 25, cooldown: 1100, projectileSpeed: 520, projectileCount: 1, spread: 0, projectileSize: 10 },
+      { damage: 25, cooldown: 800, projectileSpeed: 560, projectileCount: 2, spread: 0.1, projectileSize: 10 },
+    ],
+  },
+  [WeaponType.LASER]: {
+    name: 'Laser Beam',
+    icon: '🔦',
+    levels: [
+      { damage: 15, cooldown: 50, projectileSpeed: 0, projectileCount: 1, spread: 0, projectileSize: 6 },
+      { damage: 22, cooldown: 50, projectileSpeed: 0, projectileCount: 1, spread: 0, projectileSize: 8 },
+      { damage: 30, cooldown: 50, projectileSpeed: 0, projectileCount: 1, spread: 0, projectileSize: 12 },
+    ],
+  },
+  [WeaponType.HOMING]: {
+    name: 'Homing Missiles',
+    icon: '🚀',
+    levels: [
+      { damage: 30, cooldown: 1600, projectileSpeed: 300, projectileCount: 1, spread: 0, projectileSize: 12, turnRate: 3 },
+      { damage: 35, cooldown: 1400, projectileSpeed: 320, projectileCount: 2, spread: 0.5, projectileSize: 12, turnRate: 3.5 },
+      { damage: 40, cooldown: 1200, projectileSpeed: 340, projectileCount: 3, spread: 0.8, projectileSize: 12, turnRate: 4 },
+    ],
+  },
+  [WeaponType.RAIL]: {
+    name: 'Piercing Rail',
+    icon: '⚡',
+    levels: [
+      { damage: 45, cooldown: 2200, projectileSpeed: 900, projectileCount: 1, spread: 0, projectileSize: 8, pierce: 2 },
+      { damage: 60, cooldown: 1900, projectileSpeed: 960, projectileCount: 1, spread: 0, projectileSize: 8, pierce: 3 },
+      { damage: 80, cooldown: 1600, projectileSpeed: 1020, projectileCount: 1, spread: 0, projectileSize: 10, pierce: 4 },
+    ],
+  },
+  [WeaponType.SPREAD]: {
+    name: 'Spread Cannon',
+    icon: '💥',
+    levels: [
+      { damage: 10, cooldown: 1300, projectileSpeed: 420, projectileCount: 5, spread: 0.6, projectileSize: 8 },
+      { damage: 12, cooldown: 1100, projectileSpeed: 440, projectileCount: 6, spread: 0.7, projectileSize: 8 },
+      { damage: 14, cooldown: 900, projectileSpeed: 460, projectileCount: 7, spread: 0.8, projectileSize: 8 },
+    ],
+  },
+};
+
+export class Weapon {
+  public type: WeaponType;
+  public level: number;
+  public kills: number = 0; // Kills towards the next level
+  public cooldown: number = 0; // Remaining ms until the weapon can fire again
+  private beamTimer: number = 0; // Remaining ms of laser beam
+
+  constructor(type: WeaponType = WeaponType.BLASTER, level: number = 1) {
+    this.type = type;
+    this.level = Math.max(1, Math.min(WEAPON_MAX_LEVEL, level));
+  }
+
+  get name(): string {
+    return WEAPON_SPECS[this.type].name;
+  }
+
+  get icon(): string {
+    return WEAPON_SPECS[this.type].icon;
+  }
+
+  get stats(): WeaponStats {
+    return WEAPON_SPECS[this.type].levels[this.level - 1];
+  }
+
+  // Kills still needed for the next level, or 0 at max level
+  get killsToNextLevel(): number {
+    return this.level >= WEAPON_MAX_LEVEL ? 0 : KILLS_PER_LEVEL[this.level - 1] - this.kills;
+  }
+
+  // Count down the cooldown and beam (deltaTime in ms)
+  update(deltaTime: number): void {
+    this.cooldown = Math.max(0, this.cooldown - deltaTime);
+    this.beamTimer = Math.max(0, this.beamTimer - deltaTime);
+  }
+
+  canFire(): boolean {
+    return this.cooldown <= 0;
+  }
+
+  isBeamActive(): boolean {
+    return this.type === WeaponType.LASER && this.beamTimer > 0;
+  }
+
+  // Fire from origin and start the cooldown - the laser lights its beam instead of returning projectiles
+  fire(origin: Position, cooldownMultiplier: number = 1, multiShotCount: number = 1): NewBullet[] {
+    const stats = this.stats;
+    this.cooldown = stats.cooldown * cooldownMultiplier;
+
+    if (this.type === WeaponType.LASER) {
+      this.beamTimer = BEAM_HOLD;
+      return [];
+    }
+
+    const bullets: NewBullet[] = [];
+    for (let copy = 0; copy < multiShotCount; copy++) {
+      const copyOffset = (copy - (multiShotCount - 1) / 2) * MULTI_SHOT_SPREAD;
+      for (let i = 0; i < stats.projectileCount; i++) {
+        const offset =
+          stats.projectileCount > 1 ? -stats.spread / 2 + (stats.spread * i) / (stats.projectileCount - 1) : 0;
+        bullets.push(this.projectile(origin, copyOffset + offset, stats));
+      }
+    }
+    return bullets;
+  }
+
+  // Credit a kill - returns true if it levelled the weapon up
+  registerKill(): boolean {
+    if (this.level >= WEAPON_MAX_LEVEL) return false;
+    this.kills++;
+    if (this.killsToNextLevel > 0) return false;
+    return this.levelUp();
+  }
+
+  // Raise the weapon a level - returns false if it is already maxed
+  levelUp(): boolean {
+    if (this.level >= WEAPON_MAX_LEVEL) return false;
+    this.level++;
+    this.kills = 0;
+    return true;
+  }
+
+  // Large piercing projectile for a released charge - charge is 0 (minimum) to 1 (full)
+  static chargedShot(origin: Position, charge: number): NewBullet {
+    const size = 16 + 24 * charge;
+    return {
+      x: origin.x - size / 2,
+      y: origin.y - size / 2,
+      vx: 600,
+      vy: 0,
+      width: size,
+      height: size,
+      isPlayerBullet: true,
+      damage: Math.round(30 + 90 * charge),
+      pierce: 1 + Math.floor(3 * charge),
+      hitTargets: [],
+      charged: true,
+    };
+  }
+
+  // Player projectile centred on origin, travelling right at the given angle (radians)
+  private projectile(origin: Position, angle: number, stats: WeaponStats): NewBullet {
+    const bullet: NewBullet = {
+      x: origin.x - stats.projectileSize / 2,
+      y: origin.y - stats.projectileSize / 2,
+      vx: Math.cos(angle) * stats.projectileSpeed,
+      vy: Math.sin(angle) * stats.projectileSpeed,
+      width: stats.projectileSize,
+      height: stats.projectileSize,
+      isPlayerBullet: true,
+      damage: stats.damage,
+      weapon: this.type,
+    };
+    if (stats.turnRate) bullet.turnRate = stats.turnRate;
+    if (stats.pierce) {
+      bullet.pierce = stats.pierce;
+      bullet.hitTargets = [];
+    }
+    return bullet;
+  }
+}
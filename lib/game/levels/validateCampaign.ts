@@ -0,0 +1,173 @@
+// Campaign validation - checks level data against the rules in campaign.schema.json
+
+import { BossAttackType, BossConfig, BULLET_PATTERN_TYPES, EnemyConfig, FORMATION_TYPES, LevelDefinition, MOVEMENT_TYPES } from '../types';
+
+const BOSS_ATTACKS = Object.values(BossAttackType) as string[];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown, min: number = -Infinity, max: number = Infinity): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+const isPositive = (value: unknown): value is number => isNumber(value) && value > 0;
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.length > 0;
+
+// Validate a campaign file - returns its levels with each enemy tagged with its level,
+// or throws listing every problem found
+export function validateCampaign(data: unknown): LevelDefinition[] {
+  const errors: string[] = [];
+  const check = (condition: boolean, path: string, message: string): boolean => {
+    if (!condition) errors.push(`${path}: ${message}`);
+    return condition;
+  };
+
+  if (!isObject(data) || !Array.isArray(data.levels) || data.levels.length === 0) {
+    throw new Error('Invalid campaign: expected a non-empty "levels" array');
+  }
+
+  data.levels.forEach((level: unknown, index: number) => {
+    const path = `levels[${index}]`;
+    if (!check(isObject(level), path, 'must be an object') || !isObject(level)) return;
+
+    check(level.level === index + 1, `${path}.level`, `must be ${index + 1} (levels are played in order)`);
+    check(isNonEmptyString(level.name), `${path}.name`, 'must be a non-empty string');
+    check(isPositive(level.duration), `${path}.duration`, 'must be a positive number of ms');
+
+    // Enemy table
+    const enemyTypes = new Set<string>();
+    if (check(Array.isArray(level.enemies) && level.enemies.length > 0, `${path}.enemies`, 'must be a non-empty array')) {
+      level.enemies.forEach((enemy: unknown, enemyIndex: number) => {
+        const enemyPath = `${path}.enemies[${enemyIndex}]`;
+        if (!check(isObject(enemy), enemyPath, 'must be an object') || !isObject(enemy)) return;
+        if (check(isNonEmptyString(enemy.type), `${enemyPath}.type`, 'must be a non-empty string')) {
+          check(!enemyTypes.has(enemy.type), `${enemyPath}.type`, `"${enemy.type}" is defined twice`);
+          enemyTypes.add(enemy.type);
+        }
+        check(isPositive(enemy.health), `${enemyPath}.health`, 'must be positive');
+        check(isNumber(enemy.speed, 0), `${enemyPath}.speed`, 'must be zero or more');
+        check(typeof enemy.imagePath === 'string', `${enemyPath}.imagePath`, 'must be a string');
+        check(isPositive(enemy.width) && isPositive(enemy.height), enemyPath, 'width and height must be positive');
+        check(typeof enemy.canShoot === 'boolean', `${enemyPath}.canShoot`, 'must be a boolean');
+        check(isNumber(enemy.shootInterval, 0), `${enemyPath}.shootInterval`, 'must be zero or more');
+        check(enemy.bulletSpeed === undefined || isPositive(enemy.bulletSpeed), `${enemyPath}.bulletSpeed`, 'must be positive');
+        check(Number.isInteger(enemy.points) && enemy.points >= 0, `${enemyPath}.points`, 'must be a non-negative integer');
+        check(enemy.movement === undefined || MOVEMENT_TYPES.includes(enemy.movement), `${enemyPath}.movement`, `must be one of ${MOVEMENT_TYPES.join(', ')}`);
+        if (enemy.pattern !== undefined) {
+          validatePattern(enemy.pattern, `${enemyPath}.pattern`, check);
+        }
+      });
+    }
+
+    // Continuous spawns
+    if (level.spawn !== null) {
+      const spawnPath = `${path}.spawn`;
+      if (check(isObject(level.spawn), spawnPath, 'must be an object or null') && isObject(level.spawn)) {
+        check(isPositive(level.spawn.interval), `${spawnPath}.interval`, 'must be a positive number of ms');
+        check(level.spawn.squadChance === undefined || isNumber(level.spawn.squadChance, 0, 1), `${spawnPath}.squadChance`, 'must be between 0 and 1');
+        if (check(Array.isArray(level.spawn.enemies) && level.spawn.enemies.length > 0, `${spawnPath}.enemies`, 'must be a non-empty array')) {
+          level.spawn.enemies.forEach((type: unknown, typeIndex: number) => {
+            check(typeof type === 'string' && enemyTypes.has(type), `${spawnPath}.enemies[${typeIndex}]`, 'must be one of the level\'s enemy types');
+          });
+        }
+      }
+    }
+
+    // Scripted waves
+    if (check(Array.isArray(level.waves), `${path}.waves`, 'must be an array')) {
+      let previousAt = 0;
+      level.waves.forEach((wave: unknown, waveIndex: number) => {
+        const wavePath = `${path}.waves[${waveIndex}]`;
+        if (!check(isObject(wave), wavePath, 'must be an object') || !isObject(wave)) return;
+        if (check(isNumber(wave.at, 0), `${wavePath}.at`, 'must be zero or more ms')) {
+          check(wave.at >= previousAt, `${wavePath}.at`, 'waves must be ordered by entry time');
+          previousAt = wave.at;
+        }
+        check(typeof wave.enemy === 'string' && enemyTypes.has(wave.enemy), `${wavePath}.enemy`, 'must be one of the level\'s enemy types');
+        check(Number.isInteger(wave.count) && wave.count >= 1, `${wavePath}.count`, 'must be a positive integer');
+        check(FORMATION_TYPES.includes(wave.formation), `${wavePath}.formation`, `must be one of ${FORMATION_TYPES.join(', ')}`);
+        check(wave.movement === undefined || MOVEMENT_TYPES.includes(wave.movement), `${wavePath}.movement`, `must be one of ${MOVEMENT_TYPES.join(', ')}`);
+        check(wave.bonus === undefined || (Number.isInteger(wave.bonus) && wave.bonus >= 0), `${wavePath}.bonus`, 'must be a non-negative integer');
+      });
+    }
+
+    // Power-up rules
+    const powerUpPath = `${path}.powerUps`;
+    if (check(isObject(level.powerUps), powerUpPath, 'must be an object') && isObject(level.powerUps)) {
+      check(isNumber(level.powerUps.dropChance, 0, 1), `${powerUpPath}.dropChance`, 'must be between 0 and 1');
+      check(isNumber(level.powerUps.spawnInterval, 0), `${powerUpPath}.spawnInterval`, 'must be zero or more ms');
+      check(isNumber(level.powerUps.spawnChance, 0, 1), `${powerUpPath}.spawnChance`, 'must be between 0 and 1');
+    }
+
+    // Boss
+    if (level.boss !== null) {
+      validateBoss(level.boss, `${path}.boss`, check);
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid campaign:\n${errors.join('\n')}`);
+  }
+
+  // Valid - tag each enemy with its level
+  return (data.levels as LevelDefinition[]).map((level) => ({
+    ...level,
+    enemies: level.enemies.map((enemy): EnemyConfig => ({ ...enemy, level: level.level })),
+    boss: level.boss as BossConfig | null,
+  }));
+}
+
+function validatePattern(
+  pattern: unknown,
+  path: string,
+  check: (condition: boolean, path: string, message: string) => boolean
+): void {
+  if (!check(isObject(pattern), path, 'must be an object') || !isObject(pattern)) return;
+
+  check(BULLET_PATTERN_TYPES.includes(pattern.type), `${path}.type`, `must be one of ${BULLET_PATTERN_TYPES.join(', ')}`);
+  check(pattern.count === undefined || (Number.isInteger(pattern.count) && pattern.count >= 1), `${path}.count`, 'must be a positive integer');
+  check(pattern.spread === undefined || isNumber(pattern.spread, 0, Math.PI * 2), `${path}.spread`, 'must be between 0 and 2π radians');
+  check(pattern.direction === undefined || isNumber(pattern.direction), `${path}.direction`, 'must be a number of radians');
+  check(pattern.rotationRate === undefined || isNumber(pattern.rotationRate), `${path}.rotationRate`, 'must be a number of radians');
+  check(pattern.delay === undefined || isNumber(pattern.delay, 0), `${path}.delay`, 'must be zero or more');
+  check(pattern.bulletSize === undefined || isPositive(pattern.bulletSize), `${path}.bulletSize`, 'must be positive');
+  check(pattern.damage === undefined || isNumber(pattern.damage, 0), `${path}.damage`, 'must be zero or more');
+}
+
+function validateBoss(
+  boss: unknown,
+  path: string,
+  check: (condition: boolean, path: string, message: string) => boolean
+): void {
+  if (!check(isObject(boss), path, 'must be an object or null') || !isObject(boss)) return;
+
+  check(isNonEmptyString(boss.name), `${path}.name`, 'must be a non-empty string');
+  check(typeof boss.imagePath === 'string', `${path}.imagePath`, 'must be a string');
+  check(isPositive(boss.width) && isPositive(boss.height), path, 'width and height must be positive');
+  check(isPositive(boss.health), `${path}.health`, 'must be positive');
+  check(isNumber(boss.speed, 0), `${path}.speed`, 'must be zero or more');
+  check(isPositive(boss.bulletSpeed), `${path}.bulletSpeed`, 'must be positive');
+  check(Number.isInteger(boss.reward) && boss.reward >= 0, `${path}.reward`, 'must be a non-negative integer');
+  check(isNumber(boss.healReward, 0), `${path}.healReward`, 'must be zero or more');
+
+  if (!check(Array.isArray(boss.phases) && boss.phases.length > 0, `${path}.phases`, 'must be a non-empty array')) return;
+  let previousThreshold = Infinity;
+  boss.phases.forEach((phase: unknown, phaseIndex: number) => {
+    const phasePath = `${path}.phases[${phaseIndex}]`;
+    if (!check(isObject(phase), phasePath, 'must be an object') || !isObject(phase)) return;
+    if (check(isNumber(phase.healthThreshold, 0, 1) && phase.healthThreshold > 0, `${phasePath}.healthThreshold`, 'must be above 0 and at most 1')) {
+      check(phaseIndex > 0 || phase.healthThreshold === 1, `${phasePath}.healthThreshold`, 'the first phase must start at 1');
+      check(phase.healthThreshold < previousThreshold, `${phasePath}.healthThreshold`, 'phases must be ordered by descending threshold');
+      previousThreshold = phase.healthThreshold;
+    }
+    if (check(Array.isArray(phase.attacks) && phase.attacks.length > 0, `${phasePath}.attacks`, 'must be a non-empty array')) {
+      phase.attacks.forEach((attack: unknown, attackIndex: number) => {
+        check(typeof attack === 'string' && BOSS_ATTACKS.includes(attack), `${phasePath}.attacks[${attackIndex}]`, `must be one of ${BOSS_ATTACKS.join(', ')}`);
+      });
+    }
+    check(isPositive(phase.shootInterval), `${phasePath}.shootInterval`, 'must be a positive number of ms');
+    check(isNumber(phase.speedMultiplier, 0), `${phasePath}.speedMultiplier`, 'must be zero or more');
+  });
+}
@@ -0,0 +1,8 @@
+// Simulation timing constants shared by the game loop and entities
+
+// Length of one simulation tick in milliseconds (60 ticks per second)
+export const FIXED_TIMESTEP = 1000 / 60;
+
+// Upper bound on real time fed into the accumulator per frame, so a
+// backgrounded tab doesn't try to catch up on seconds of simulation at once
+export const MAX_FRAME_TIME = 250;
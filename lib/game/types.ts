@@ -1,5 +1,7 @@
 // Game types and interfaces
 
+import type { BulletPatternEmitter } from './BulletPatterns';
+
 export interface Position {
   x: number;
   y: number;
@@ -30,28 +32,112 @@ export enum EnemyType {
 }
 
 export interface EnemyConfig {
-  type: EnemyType;
+  type: string; // One of EnemyType for the built-in enemies; levels may define their own
   health: number;
-  speed: number;
+  speed: number; // Pixels per second
   imagePath: string;
   width: number;
   height: number;
   canShoot: boolean;
-  shootInterval: number;
+  shootInterval: number; // Milliseconds between shots
   level: number;
-  bulletsPerShot?: number; // Number of bullets to shoot at once (default: 1)
-  bulletSpeed?: number; // Speed of enemy bullets (default: 4)
+  bulletSpeed?: number; // Speed of enemy bullets in pixels per second (default: 240)
+  pattern?: BulletPattern; // How the enemy fires (default: one aimed bullet)
+  points: number; // Base score for a kill, before the combo multiplier
+  movement?: MovementType; // How the enemy flies (default: drift)
+}
+
+export type BulletPatternType = 'aimed' | 'fan' | 'ring' | 'spiral' | 'burst' | 'predictive';
+
+export const BULLET_PATTERN_TYPES: BulletPatternType[] = ['aimed', 'fan', 'ring', 'spiral', 'burst', 'predictive'];
+
+// An enemy's or boss's fire pattern - fields that don't apply to the type are ignored
+export interface BulletPattern {
+  type: BulletPatternType;
+  count?: number; // Bullets per shot for fan/ring/spiral, or per burst (default: 1)
+  spread?: number; // Fan arc in radians (default: 0.3)
+  direction?: number; // Fixed angle in radians (0 right, π left) for aimed/fan/ring/burst instead of aiming at the player
+  rotationRate?: number; // Spiral rotation added after each shot in radians (default: 0.35)
+  delay?: number; // Milliseconds between burst bullets (default: 100)
+  bulletSize?: number; // Pixels (default: 8)
+  damage?: number; // Damage per bullet before difficulty scaling (default: 10)
 }
 
+export type MovementType = 'drift' | 'sine' | 'dive' | 'zigzag' | 'orbit_strafe' | 'retreat_after_firing' | 'kamikaze';
+
+export const MOVEMENT_TYPES: MovementType[] = ['drift', 'sine', 'dive', 'zigzag', 'orbit_strafe', 'retreat_after_firing', 'kamikaze'];
+
 export interface Bullet {
+  id: number; // Stable for the bullet's lifetime, assigned by GameEngine when it enters play
+  dead?: boolean; // Marked during a pass and swept out after it, so arrays never shrink mid-iteration
   x: number;
   y: number;
-  vx: number;
-  vy: number;
+  vx: number; // Pixels per second
+  vy: number; // Pixels per second
   width: number;
   height: number;
   isPlayerBullet: boolean;
   damage: number;
+  weapon?: WeaponType; // Player weapon that fired it, for rendering
+  turnRate?: number; // Homing missiles steer towards the nearest target, radians per second
+  pierce?: number; // Further enemies a piercing round can pass through
+  hitTargets?: number[]; // IDs of enemies a piercing round has already damaged
+  charged?: boolean; // Released charge shot, for rendering
+}
+
+// Bullet as fired by a weapon or pattern, before GameEngine gives it an ID
+export type NewBullet = Omit<Bullet, 'id'>;
+
+export enum WeaponType {
+  BLASTER = 'blaster', // Steady single shots
+  LASER = 'laser', // Continuous beam while fire is held
+  HOMING = 'homing', // Missiles that seek the nearest enemy
+  RAIL = 'rail', // Slow, heavy rounds that pierce through enemies
+  SPREAD = 'spread', // Short-range fan of pellets
+}
+
+// One level of a weapon - see WEAPON_SPECS in Weapon.ts
+export interface WeaponStats {
+  damage: number; // Per projectile, or per second for the laser
+  cooldown: number; // Milliseconds between shots
+  projectileSpeed: number; // Pixels per second
+  projectileCount: number; // Projectiles per shot
+  spread: number; // Radians between the outermost projectiles
+  projectileSize: number; // Pixels, or beam thickness for the laser
+  pierce?: number; // Further enemies each projectile passes through
+  turnRate?: number; // Homing steering, radians per second
+}
+
+// 'campaign' ends after the last level; 'endless' continues with generated waves
+export type GameMode = 'campaign' | 'endless';
+
+export const GAME_MODES: GameMode[] = ['campaign', 'endless'];
+
+export type Difficulty = 'easy' | 'normal' | 'hard';
+
+export const DIFFICULTIES: Difficulty[] = ['easy', 'normal', 'hard'];
+
+// 'vertical' keeps the base on its rail at the left edge; 'free' lets it fly anywhere in the play area
+export type PlayerMovementMode = 'vertical' | 'free';
+
+export const PLAYER_MOVEMENT_MODES: PlayerMovementMode[] = ['vertical', 'free'];
+
+// Region the base can fly in with free movement, as fractions (0-1) of the canvas
+export interface PlayArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Multipliers applied on top of the level definitions (1 = as designed)
+export interface DifficultyProfile {
+  enemyHealth: number;
+  enemySpeed: number;
+  enemyFireRate: number; // Divides enemy and boss shoot intervals
+  spawnRate: number; // Divides the level's continuous spawn interval
+  damageTaken: number; // Scales damage dealt to the player
+  scoreMultiplier: number;
 }
 
 export interface GameState {
@@ -62,6 +148,7 @@ export interface GameState {
   isGameOver: boolean;
   isPaused: boolean;
   levelStartTime: number;
+  levelElapsed: number; // Simulated ms spent in the current level (excludes pauses)
   levelDuration: number;
   enemiesKilled: number;
   bulletsShot: number;
@@ -70,6 +157,10 @@ export interface GameState {
   combo: number;
   comboMultiplier: number;
   lastKillTime: number;
+  bossesDefeated: number;
+  wave: number; // Endless wave reached (0 during the campaign)
+  lives: number; // Including the current one - the run ends when the last is lost
+  continues: number; // Times the run was continued from a level checkpoint
 }
 
 export interface ScorePopup {
@@ -83,8 +174,8 @@ export interface ScorePopup {
 export interface Particle {
   x: number;
   y: number;
-  vx: number;
-  vy: number;
+  vx: number; // Pixels per second
+  vy: number; // Pixels per second
   lifetime: number;
   maxLifetime: number;
   color: string;
@@ -96,15 +187,61 @@ export enum PowerUpType {
   RAPID_FIRE = 'rapid_fire',
   SHIELD = 'shield',
   MULTI_SHOT = 'multi_shot',
+  WEAPON_UPGRADE = 'weapon_upgrade', // Instant - levels up the current weapon
+  WEAPON_CRATE = 'weapon_crate', // Instant - swaps to the crate's weapon
+  HEALTH = 'health', // Instant - repairs the base
 }
 
 export interface PowerUp {
+  id: number;
+  dead?: boolean; // Collected or expired, removed once the current pass is over
   x: number;
   y: number;
   type: PowerUpType;
-  lifetime: number;
+  lifetime: number; // Elapsed ms
   maxLifetime: number;
   size: number;
+  weapon?: WeaponType; // Weapon inside a WEAPON_CRATE
+}
+
+export type FormationType = 'random' | 'column' | 'row' | 'v' | 'wall' | 'pincer';
+
+export const FORMATION_TYPES: FormationType[] = ['random', 'column', 'row', 'v', 'wall', 'pincer'];
+
+// A scripted group of enemies entering together
+export interface WaveDefinition {
+  at: number; // Milliseconds after the level starts
+  enemy: string; // One of the level's enemy types
+  count: number;
+  formation: FormationType;
+  movement?: MovementType; // Shared by the whole squad instead of the enemy's own movement
+  bonus?: number; // Score for destroying every enemy in the squad (default: half their combined points)
+}
+
+// A group of enemies that entered together, tracked for the formation bonus
+export interface Squad {
+  id: number;
+  size: number;
+  killed: number;
+  bonus: number; // Before the difficulty score multiplier
+}
+
+export interface PowerUpRules {
+  dropChance: number; // Chance a killed enemy drops a power-up (0-1)
+  spawnInterval: number; // Milliseconds between periodic spawns, 0 to disable
+  spawnChance: number; // Per-tick chance once the interval has passed (0-1)
+}
+
+// One level of the campaign, loaded from levels/campaign.json
+export interface LevelDefinition {
+  level: number;
+  name: string;
+  duration: number; // Milliseconds before the boss arrives
+  enemies: EnemyConfig[];
+  spawn: { interval: number; enemies: string[]; squadChance?: number } | null; // Continuous random spawns, sometimes as a squad
+  waves: WaveDefinition[]; // Ordered by entry time
+  powerUps: PowerUpRules;
+  boss: BossConfig | null;
 }
 
 export interface Achievement {
@@ -115,22 +252,120 @@ export interface Achievement {
   unlockedAt?: number;
 }
 
+export enum BossAttackType {
+  AIMED_VOLLEY = 'aimed_volley', // Tight burst aimed at the player
+  SPREAD = 'spread', // Wide fan towards the left side of the screen
+  SPIRAL = 'spiral', // Ring of bullets that rotates between bursts
+  SUMMON = 'summon', // Calls in minions from the current level
+}
+
+export interface BossPhase {
+  healthThreshold: number; // Phase starts once health falls to this fraction of maxHealth
+  attacks: BossAttackType[]; // Used in rotation
+  shootInterval: number; // Milliseconds between attacks
+  speedMultiplier: number; // Applied to the boss's vertical patrol speed
+}
+
+export interface BossConfig {
+  name: string;
+  imagePath: string;
+  width: number;
+  height: number;
+  health: number;
+  speed: number; // Pixels per second
+  bulletSpeed: number; // Pixels per second
+  phases: BossPhase[]; // Ordered by descending healthThreshold, first one at 1
+  reward: number; // Points for defeating the boss
+  healReward: number; // Health restored to the player on defeat
+}
+
+// Boss attacks that fire bullets rather than summoning minions
+export type BossBulletAttack = Exclude<BossAttackType, BossAttackType.SUMMON>;
+
+export type BossWeapons = Record<BossBulletAttack, BulletPatternEmitter>;
+
 export interface Boss {
   position: Position;
   size: Size;
   health: number;
   maxHealth: number;
-  speed: number;
-  lastShotTime: number;
-  shootInterval: number;
+  speed: number; // Pixels per second
+  lastShotTime: number; // Clock time of the last attack
+  shootInterval: number; // Milliseconds between attacks in the current phase
+  config: BossConfig;
+  phase: number; // Index into config.phases
+  attackIndex: number; // Position in the current phase's attack rotation
+  verticalDirection: number; // 1 for down, -1 for up
+  weapons: BossWeapons; // One emitter per bullet attack, keeping its state (such as spiral rotation) between attacks
+  isEntering: boolean; // Still flying in from the right edge (doesn't attack)
 }
 
+// Player actions that physical inputs are bound to
+export type GameAction = 'up' | 'down' | 'left' | 'right' | 'shoot' | 'charge' | 'bomb' | 'pause' | 'confirm';
+
+export const GAME_ACTIONS: GameAction[] = ['up', 'down', 'left', 'right', 'shoot', 'charge', 'bomb', 'pause', 'confirm'];
+
+// Keyboard keys bound to each action (KeyboardEvent.key values, single characters lowercased)
+export type KeyBindings = Record<GameAction, string[]>;
+
+// How touch screens move the base: on-screen buttons, dragging on the canvas, or a virtual joystick
+export type TouchControlScheme = 'buttons' | 'drag' | 'joystick';
+
+export const TOUCH_CONTROL_SCHEMES: TouchControlScheme[] = ['buttons', 'drag', 'joystick'];
+
+// 'relative' moves the base by as much as the finger moves; 'absolute' sends it to the point touched
+export type TouchDragMode = 'relative' | 'absolute';
+
 export interface GameSettings {
   soundEnabled: boolean;
   musicEnabled: boolean;
   soundVolume: number;
   musicVolume: number;
-  difficulty: 'easy' | 'normal' | 'hard';
+  difficulty: Difficulty;
+  movementMode: PlayerMovementMode;
+  keyBindings: KeyBindings;
+  gamepadDeadzone: number; // Stick travel (0-1) ignored around the center
+  gamepadRumble: boolean;
+  touchControls: TouchControlScheme;
+  touchDragMode: TouchDragMode;
+  autoFire: boolean; // On touch controls, fire whenever the weapon is ready without holding shoot
   showFPS: boolean;
 }
 
+
+// Player input for a single simulation tick
+export interface FrameInput {
+  up: boolean;
+  down: boolean;
+  left: boolean; // Only used with free movement
+  right: boolean;
+  stickX: number; // Analog movement from -1 to 1 in steps of 1/8, overriding the directions when non-zero
+  stickY: number;
+  shoot: boolean;
+  charge: boolean; // Held to charge a shot, fired on release
+  bomb: boolean; // Detonates a smart bomb when first pressed
+  continue: boolean; // Restarts the level from its checkpoint once the last life is lost
+}
+
+// Events the simulation emits for presentation (audio, UI tracking)
+export enum GameEventType {
+  SHOOT = 'shoot',
+  ENEMY_HIT = 'enemy_hit',
+  ENEMY_KILLED = 'enemy_killed',
+  PLAYER_DAMAGED = 'player_damaged',
+  SHIELD_BROKEN = 'shield_broken',
+  POWER_UP_COLLECTED = 'power_up_collected',
+  BOSS_SPAWNED = 'boss_spawned',
+  BOSS_HIT = 'boss_hit',
+  BOSS_DEFEATED = 'boss_defeated',
+  FORMATION_CLEARED = 'formation_cleared',
+  WEAPON_UPGRADED = 'weapon_upgraded',
+  CHARGE_SHOT = 'charge_shot',
+  BOMB_DETONATED = 'bomb_detonated',
+  LIFE_LOST = 'life_lost',
+  RUN_CONTINUED = 'run_continued',
+}
+
+export interface GameEvent {
+  type: GameEventType;
+}
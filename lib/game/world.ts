@@ -0,0 +1,6 @@
+// Logical world size shared by the simulation and the renderer
+
+// Every run is simulated in this fixed coordinate space; the renderer scales it to whatever
+// canvas it is drawn into, so play never depends on the size of the player's screen
+export const WORLD_WIDTH = 800;
+export const WORLD_HEIGHT = 600;
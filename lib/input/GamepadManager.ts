@@ -0,0 +1,135 @@
+// Gamepad Manager - polls the Gamepad API and feeds buttons and the left stick into the input manager
+
+import { GAME_ACTIONS, GameAction } from '../game/types';
+import { settingsManager } from '../settings/SettingsManager';
+import { inputManager } from './InputManager';
+
+const TRIGGER_THRESHOLD = 0.5; // Analog trigger travel that counts as a press
+
+// Buttons of the standard mapping (https://w3c.github.io/gamepad/#remapping) that trigger each action
+const BUTTON_ACTIONS: Record<number, GameAction[]> = {
+  0: ['shoot', 'confirm'], // A / Cross
+  1: ['bomb'], // B / Circle
+  2: ['charge'], // X / Square
+  6: ['charge'], // Left trigger
+  7: ['shoot'], // Right trigger
+  9: ['pause'], // Start / Options
+  12: ['up'], // D-pad
+  13: ['down'],
+  14: ['left'],
+  15: ['right'],
+};
+
+export class GamepadManager {
+  private gamepadIndex: number | null = null; // Pad being read, the first one connected
+  private gamepadName: string = '';
+  private connectionListeners: ((connected: boolean) => void)[] = [];
+
+  // Start polling once per animation frame and watching for controllers - returns a function that stops
+  start(target: Window): () => void {
+    if (!target.navigator.getGamepads) {
+      return () => {};
+    }
+
+    let frameId = 0;
+    const poll = () => {
+      this.poll(target.navigator);
+      frameId = target.requestAnimationFrame(poll);
+    };
+
+    // Some browsers only list pads after a connection event, so re-check on both
+    const handleConnectionChange = () => this.poll(target.navigator);
+
+    target.addEventListener('gamepadconnected', handleConnectionChange);
+    target.addEventListener('gamepaddisconnected', handleConnectionChange);
+    frameId = target.requestAnimationFrame(poll);
+    return () => {
+      target.cancelAnimationFrame(frameId);
+      target.removeEventListener('gamepadconnected', handleConnectionChange);
+      target.removeEventListener('gamepaddisconnected', handleConnectionChange);
+      this.setGamepad(null);
+    };
+  }
+
+  isConnected(): boolean {
+    return this.gamepadIndex !== null;
+  }
+
+  // Name the browser reports for the connected controller
+  getName(): string {
+    return this.gamepadName;
+  }
+
+  // Shake the controller if it supports it and rumble is enabled (strength 0-1, duration in ms)
+  rumble(strength: number, duration: number): void {
+    if (!settingsManager.getSetting('gamepadRumble') || this.gamepadIndex === null) return;
+    if (typeof navigator === 'undefined' || !navigator.getGamepads) return;
+
+    const gamepad = navigator.getGamepads()[this.gamepadIndex];
+    gamepad?.vibrationActuator
+      ?.playEffect('dual-rumble', {
+        duration,
+        strongMagnitude: strength,
+        weakMagnitude: strength,
+      })
+      .catch(() => {
+        // Not every controller supports dual rumble - nothing to do
+      });
+  }
+
+  // Register a listener for a controller connecting or disconnecting - returns an unsubscribe function
+  onConnectionChange(listener: (connected: boolean) => void): () => void {
+    this.connectionListeners.push(listener);
+    return () => {
+      this.connectionListeners = this.connectionListeners.filter((l) => l !== listener);
+    };
+  }
+
+  // Read the current controller state into the input manager
+  private poll(nav: Navigator): void {
+    const gamepads = Array.from(nav.getGamepads());
+    const current = this.gamepadIndex !== null ? gamepads[this.gamepadIndex] : null;
+    const gamepad = current?.connected ? current : gamepads.find((pad) => pad?.connected) ?? null;
+    this.setGamepad(gamepad);
+    if (!gamepad) return;
+
+    const held = new Set<GameAction>();
+    gamepad.buttons.forEach((button, index) => {
+      if (button.pressed || button.value >= TRIGGER_THRESHOLD) {
+        BUTTON_ACTIONS[index]?.forEach((action) => held.add(action));
+      }
+    });
+    GAME_ACTIONS.forEach((action) => inputManager.setHeld('gamepad', action, held.has(action)));
+
+    const [x, y] = this.applyDeadzone(gamepad.axes[0] ?? 0, gamepad.axes[1] ?? 0);
+    inputManager.setStick('gamepad', x, y);
+  }
+
+  // Ignore stick travel inside the deadzone and rescale the rest so the edge of it starts from zero
+  private applyDeadzone(x: number, y: number): [number, number] {
+    const deadzone = settingsManager.getSetting('gamepadDeadzone');
+    const magnitude = Math.hypot(x, y);
+    if (magnitude <= deadzone) {
+      return [0, 0];
+    }
+    const scale = Math.min(1, (magnitude - deadzone) / (1 - deadzone)) / magnitude;
+    return [x * scale, y * scale];
+  }
+
+  // Switch to a controller (or none), releasing everything the previous one held
+  private setGamepad(gamepad: Gamepad | null): void {
+    const index = gamepad ? gamepad.index : null;
+    if (index === this.gamepadIndex) return;
+
+    const wasConnected = this.gamepadIndex !== null;
+    this.gamepadIndex = index;
+    this.gamepadName = gamepad ? gamepad.id : '';
+    inputManager.releaseSource('gamepad');
+    if (wasConnected !== (index !== null)) {
+      this.connectionListeners.forEach((listener) => listener(index !== null));
+    }
+  }
+}
+
+// Singleton instance
+export const gamepadManager = new GamepadManager();
@@ -0,0 +1,234 @@
+// Input Manager - maps keyboard, touch and gamepad input to game actions and samples it once per tick
+
+import { FrameInput, GAME_ACTIONS, GameAction, KeyBindings, PlayerMovementMode, Position } from '../game/types';
+import { quantizeAxis } from '../game/InputLog';
+import { DEFAULT_KEY_BINDINGS, settingsManager } from '../settings/SettingsManager';
+
+export type InputSource = 'keyboard' | 'touch' | 'gamepad';
+
+// Sources that report actions directly - the keyboard reports keys, resolved through the bindings
+type ActionSource = Exclude<InputSource, 'keyboard'>;
+
+const KEY_LABELS: Record<string, string> = {
+  ' ': 'Space',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Escape: 'Esc',
+};
+
+// Key names as stored in bindings - single characters are lowercased so Shift and Caps Lock don't matter
+export const normalizeKey = (key: string): string => (key.length === 1 ? key.toLowerCase() : key);
+
+// Readable label for a bound key
+export const formatKey = (key: string): string => KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+
+export class InputManager {
+  private pressedKeys: Set<string> = new Set(); // Keyboard keys currently down
+  private held: Record<ActionSource, Set<GameAction>> = {
+    touch: new Set(),
+    gamepad: new Set(),
+  };
+  private taps: Set<GameAction> = new Set(); // One-tick presses, cleared once sampled
+  private sticks: Record<ActionSource, Position> = {
+    touch: { x: 0, y: 0 }, // Drag or virtual joystick
+    gamepad: { x: 0, y: 0 }, // Already past the deadzone
+  };
+  private lastSource: InputSource = 'keyboard'; // Where the player's most recent input came from
+  private changeListeners: (() => void)[] = [];
+  private pressListeners: ((action: GameAction) => void)[] = [];
+  private keyCapture: ((key: string | null) => void) | null = null; // Waiting to rebind an action
+
+  // Current key bindings
+  getBindings(): KeyBindings {
+    return settingsManager.getSetting('keyBindings');
+  }
+
+  // Bind an action to a single key, taking the key away from any other action
+  rebind(action: GameAction, key: string): void {
+    const bindings = { ...this.getBindings() };
+    GAME_ACTIONS.forEach((other) => {
+      bindings[other] = bindings[other].filter((bound) => bound !== key);
+    });
+    bindings[action] = [key];
+    settingsManager.setSetting('keyBindings', bindings);
+    this.notifyChange();
+  }
+
+  // Restore the default key bindings
+  resetBindings(): void {
+    settingsManager.setSetting('keyBindings', { ...DEFAULT_KEY_BINDINGS });
+    this.notifyChange();
+  }
+
+  // Deliver the next key press to callback instead of the game (null if cancelled with Escape)
+  captureKey(callback: (key: string | null) => void): void {
+    this.keyCapture = callback;
+  }
+
+  cancelCapture(): void {
+    this.keyCapture = null;
+  }
+
+  // Whether an action is held on any source
+  isHeld(action: GameAction): boolean {
+    return (
+      this.getBindings()[action].some((key) => this.pressedKeys.has(key)) ||
+      this.held.touch.has(action) ||
+      this.held.gamepad.has(action)
+    );
+  }
+
+  // Hold or release an action from a touch control or gamepad
+  setHeld(source: ActionSource, action: GameAction, held: boolean): void {
+    if (this.held[source].has(action) === held) return;
+    const wasHeld = this.isHeld(action);
+    if (held) {
+      this.lastSource = source;
+      this.held[source].add(action);
+    } else {
+      this.held[source].delete(action);
+    }
+    if (held && !wasHeld) {
+      this.notifyPress(action);
+    }
+    this.notifyChange();
+  }
+
+  // Set a source's analog movement (-1 to 1 per axis)
+  setStick(source: ActionSource, x: number, y: number): void {
+    if (x !== 0 || y !== 0) {
+      this.lastSource = source;
+    }
+    this.sticks[source] = { x, y };
+  }
+
+  // Release everything held on one source, e.g. when a gamepad disconnects
+  releaseSource(source: ActionSource): void {
+    this.held[source].clear();
+    this.sticks[source] = { x: 0, y: 0 };
+    this.notifyChange();
+  }
+
+  // Press an action for a single tick (tap controls)
+  tap(action: GameAction): void {
+    this.lastSource = 'touch';
+    this.taps.add(action);
+    this.notifyPress(action);
+  }
+
+  // Sample every source into one tick of input, consuming taps
+  getFrameInput(movement: PlayerMovementMode): FrameInput {
+    const active = (action: GameAction) => this.isHeld(action) || this.taps.has(action);
+    const free = movement === 'free';
+    // Whichever stick is pushed furthest wins
+    const { touch, gamepad } = this.sticks;
+    const stick = Math.hypot(touch.x, touch.y) > Math.hypot(gamepad.x, gamepad.y) ? touch : gamepad;
+    const input: FrameInput = {
+      up: active('up'),
+      down: active('down'),
+      left: free && active('left'),
+      right: free && active('right'),
+      stickX: free ? quantizeAxis(stick.x) : 0,
+      stickY: quantizeAxis(stick.y),
+      // Vertical movement has no use for Right, so it fires as it always has. Auto-fire is a touch
+      // option: while the player is on touch controls it holds shoot down and leaves the weapon
+      // cooldown to pace it
+      shoot: active('shoot') || (!free && active('right')) || this.isAutoFiring(),
+      charge: active('charge'),
+      bomb: active('bomb'), // Engine only detonates on the first tick it is held
+      continue: false, // Continues come from the continue prompt, not the game loop
+    };
+    this.taps.clear();
+    return input;
+  }
+
+  // Listen for keyboard input - returns a function that stops listening
+  attachKeyboard(target: Window): () => void {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const key = normalizeKey(e.key);
+      if (this.keyCapture) {
+        e.preventDefault();
+        const capture = this.keyCapture;
+        this.keyCapture = null;
+        capture(key === 'Escape' ? null : key);
+        return;
+      }
+
+      const actions = GAME_ACTIONS.filter((action) => this.getBindings()[action].includes(key));
+      if (actions.length === 0) return;
+      e.preventDefault();
+      if (this.pressedKeys.has(key)) return; // Auto-repeat
+
+      this.lastSource = 'keyboard';
+      const pressed = actions.filter((action) => !this.isHeld(action));
+      this.pressedKeys.add(key);
+      pressed.forEach((action) => this.notifyPress(action));
+      this.notifyChange();
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (this.pressedKeys.delete(normalizeKey(e.key))) {
+        this.notifyChange();
+      }
+    };
+
+    // Keys released while the window is unfocused never send keyup
+    const handleBlur = () => {
+      this.pressedKeys.clear();
+      this.notifyChange();
+    };
+
+    target.addEventListener('keydown', handleKeyDown);
+    target.addEventListener('keyup', handleKeyUp);
+    target.addEventListener('blur', handleBlur);
+    return () => {
+      target.removeEventListener('keydown', handleKeyDown);
+      target.removeEventListener('keyup', handleKeyUp);
+      target.removeEventListener('blur', handleBlur);
+    };
+  }
+
+  // Register a listener for changes to held input or bindings - returns an unsubscribe function
+  onChange(listener: () => void): () => void {
+    this.changeListeners.push(listener);
+    return () => {
+      this.changeListeners = this.changeListeners.filter((l) => l !== listener);
+    };
+  }
+
+  // Register a listener for the moment an action is pressed on any source - returns an unsubscribe function
+  onPress(listener: (action: GameAction) => void): () => void {
+    this.pressListeners.push(listener);
+    return () => {
+      this.pressListeners = this.pressListeners.filter((l) => l !== listener);
+    };
+  }
+
+  // Release everything, e.g. when a new run starts
+  clear(): void {
+    this.pressedKeys.clear();
+    this.held.touch.clear();
+    this.held.gamepad.clear();
+    this.taps.clear();
+    this.sticks = { touch: { x: 0, y: 0 }, gamepad: { x: 0, y: 0 } };
+    this.notifyChange();
+  }
+
+  // Auto-fire only applies while touch is the input in use, never to keyboard or controller play
+  private isAutoFiring(): boolean {
+    return this.lastSource === 'touch' && settingsManager.getSetting('autoFire');
+  }
+
+  private notifyChange(): void {
+    this.changeListeners.forEach((listener) => listener());
+  }
+
+  private notifyPress(action: GameAction): void {
+    this.pressListeners.forEach((listener) => listener(action));
+  }
+}
+
+// Singleton instance
+export const inputManager = new InputManager();
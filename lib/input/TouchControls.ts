@@ -0,0 +1,126 @@
+// Touch Controls - drag-to-move and virtual joystick schemes on the game canvas, fed to the input manager as a stick
+
+import { PlayerMovementMode, Position } from '../game/types';
+import { settingsManager } from '../settings/SettingsManager';
+import { inputManager } from './InputManager';
+
+const DRAG_FOLLOW_DISTANCE = 40; // World units from the target at which the base slows from full speed
+const JOYSTICK_RADIUS = 60; // World units of knob travel for full speed
+
+// Joystick as drawn on the canvas - where the touch began and where the knob is pulled to
+export interface TouchJoystick {
+  origin: Position;
+  knob: Position;
+  radius: number; // Knob travel for full speed
+}
+
+export class TouchControls {
+  private pointerId: number | null = null; // The one touch being followed
+  private start: Position = { x: 0, y: 0 }; // Where that touch began, in world coordinates
+  private current: Position = { x: 0, y: 0 };
+  private anchor: Position | null = null; // Base center when a relative drag began, taken on the next tick
+
+  // Follow touches on the canvas, mapping screen points into the world with toWorld - returns a function that stops
+  attach(canvas: HTMLCanvasElement, toWorld: (clientX: number, clientY: number) => Position): () => void {
+    const handlePointerDown = (e: PointerEvent) => {
+      // Mouse clicks stay with the keyboard controls
+      if (e.pointerType === 'mouse' || this.pointerId !== null) return;
+      if (settingsManager.getSetting('touchControls') === 'buttons') return;
+      e.preventDefault();
+      canvas.setPointerCapture(e.pointerId);
+      this.pointerId = e.pointerId;
+      this.start = toWorld(e.clientX, e.clientY);
+      this.current = this.start;
+      this.anchor = null;
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      if (e.pointerId !== this.pointerId) return;
+      e.preventDefault();
+      this.current = toWorld(e.clientX, e.clientY);
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      if (e.pointerId !== this.pointerId) return;
+      this.release();
+    };
+
+    // Stop the browser scrolling or zooming the page while playing on the canvas
+    const previousTouchAction = canvas.style.touchAction;
+    canvas.style.touchAction = 'none';
+    canvas.addEventListener('pointerdown', handlePointerDown);
+    canvas.addEventListener('pointermove', handlePointerMove);
+    canvas.addEventListener('pointerup', handlePointerUp);
+    canvas.addEventListener('pointercancel', handlePointerUp);
+    return () => {
+      canvas.style.touchAction = previousTouchAction;
+      canvas.removeEventListener('pointerdown', handlePointerDown);
+      canvas.removeEventListener('pointermove', handlePointerMove);
+      canvas.removeEventListener('pointerup', handlePointerUp);
+      canvas.removeEventListener('pointercancel', handlePointerUp);
+      this.release();
+    };
+  }
+
+  // Turn the touch into stick input for this tick, given where the base is now
+  steer(baseCenter: Position, movement: PlayerMovementMode): void {
+    if (this.pointerId === null) return;
+
+    // On the vertical rail sideways finger movement shouldn't slow the base down
+    const horizontal = movement === 'free' ? 1 : 0;
+    const scheme = settingsManager.getSetting('touchControls');
+    if (scheme === 'joystick') {
+      const dx = (this.current.x - this.start.x) * horizontal;
+      this.setStick(dx, this.current.y - this.start.y, JOYSTICK_RADIUS);
+    } else if (scheme === 'drag') {
+      const target = this.dragTarget(baseCenter);
+      this.setStick((target.x - baseCenter.x) * horizontal, target.y - baseCenter.y, DRAG_FOLLOW_DISTANCE);
+    } else {
+      this.release();
+    }
+  }
+
+  // Joystick to draw, or null when the joystick scheme isn't in use
+  getJoystick(): TouchJoystick | null {
+    if (this.pointerId === null || settingsManager.getSetting('touchControls') !== 'joystick') {
+      return null;
+    }
+    const dx = this.current.x - this.start.x;
+    const dy = this.current.y - this.start.y;
+    const scale = Math.min(1, JOYSTICK_RADIUS / Math.max(1, Math.hypot(dx, dy)));
+    return {
+      origin: this.start,
+      knob: { x: this.start.x + dx * scale, y: this.start.y + dy * scale },
+      radius: JOYSTICK_RADIUS,
+    };
+  }
+
+  // Where the finger wants the base center to be
+  private dragTarget(baseCenter: Position): Position {
+    if (settingsManager.getSetting('touchDragMode') === 'absolute') {
+      return this.current;
+    }
+    if (!this.anchor) {
+      this.anchor = { ...baseCenter };
+    }
+    return {
+      x: this.anchor.x + this.current.x - this.start.x,
+      y: this.anchor.y + this.current.y - this.start.y,
+    };
+  }
+
+  // Full speed at fullDistance or beyond, proportionally slower inside it
+  private setStick(dx: number, dy: number, fullDistance: number): void {
+    const scale = 1 / Math.max(fullDistance, Math.hypot(dx, dy));
+    inputManager.setStick('touch', dx * scale, dy * scale);
+  }
+
+  private release(): void {
+    this.pointerId = null;
+    this.anchor = null;
+    inputManager.setStick('touch', 0, 0);
+  }
+}
+
+// Singleton instance
+export const touchControls = new TouchControls();
@@ -1,18 +1,58 @@
-// Leaderboard Manager - handles local leaderboard
+// Leaderboard Manager - handles the global leaderboard with a local top-10 as offline fallback
+
+import { RunRecording } from '../game/InputLog';
+import { Difficulty, GameMode } from '../game/types';
+import {
+  DEFAULT_LEADERBOARD_CATEGORY,
+  IssuedRunSeed,
+  LeaderboardCategory,
+  LeaderboardPage,
+  LeaderboardWindow,
+  RankedLeaderboardEntry,
+  getWindowStart,
+} from './types';
 
 export interface LeaderboardEntry {
-  name: string;
+  address: string | null; // Wallet that played the run, null when no wallet was connected
+  mode: GameMode; // Each mode and difficulty has its own leaderboard
+  difficulty: Difficulty;
   score: number;
   level: number;
+  wave: number; // Endless wave reached (0 for campaign runs)
   enemiesKilled: number;
   accuracy: number;
+  continues: number; // Continued runs are marked on the leaderboard
   timestamp: number;
 }
 
-const MAX_ENTRIES = 10;
+const MAX_ENTRIES = 10; // Per category
+
+const categoryKey = (category: LeaderboardCategory): string => `${category.mode}:${category.difficulty}`;
+
+const SEED_REQUEST_TIMEOUT = 3000; // Milliseconds before a run starts on a seed of its own instead
+const DEFAULT_RETRY_DELAY = 5000; // Milliseconds, when a busy server doesn't say how long to wait
+const MAX_RETRY_DELAY = 30000;
+
+// How long a 503 answer asks the client to wait before retrying (Retry-After in seconds)
+const getRetryDelay = (response: Response): number => {
+  const seconds = Number(response.headers.get('Retry-After'));
+  return seconds > 0 ? Math.min(seconds * 1000, MAX_RETRY_DELAY) : DEFAULT_RETRY_DELAY;
+};
+
+const inCategory = (entry: LeaderboardEntry, category: LeaderboardCategory): boolean =>
+  entry.mode === category.mode && entry.difficulty === category.difficulty;
+
+// 'remote' reads and writes through the API routes, 'local' only uses this browser's list
+export type LeaderboardMode = 'remote' | 'local';
+
+export interface SubmitResult {
+  status: 'verified' | 'offline' | 'unauthenticated' | 'rejected';
+  entry: LeaderboardEntry | null;
+}
 
 export class LeaderboardManager {
   private entries: LeaderboardEntry[] = [];
+  private mode: LeaderboardMode = 'remote';
 
   constructor() {
     this.loadLeaderboard();
@@ -24,7 +64,14 @@ export class LeaderboardManager {
       const saved = localStorage.getItem('base-shooter-leaderboard');
       if (saved) {
         try {
-          this.entries = JSON.parse(saved);
+          // Entries saved before modes and difficulties existed are normal campaign runs
+          this.entries = JSON.parse(saved).map((entry: LeaderboardEntry) => ({
+            ...entry,
+            mode: entry.mode ?? 'campaign',
+            difficulty: entry.difficulty ?? 'normal',
+            wave: entry.wave ?? 0,
+            continues: entry.continues ?? 0,
+          }));
         } catch (e) {
           console.warn('Failed to load leaderboard:', e);
           this.entries = [];
@@ -49,27 +96,207 @@ export class LeaderboardManager {
 
     this.entries.push(fullEntry);
     this.entries.sort((a, b) => b.score - a.score); // Sort by score descending
-    this.entries = this.entries.slice(0, MAX_ENTRIES); // Keep only top 10
+    // Keep only the top 10 of each category
+    const kept: Record<string, number> = {};
+    this.entries = this.entries.filter((e) => {
+      const key = categoryKey(e);
+      kept[key] = (kept[key] ?? 0) + 1;
+      return kept[key] <= MAX_ENTRIES;
+    });
     this.saveLeaderboard();
 
     // Return true if this entry made it to the leaderboard
     return this.entries.some(e => e.timestamp === fullEntry.timestamp);
   }
 
-  // Get leaderboard entries
-  getLeaderboard(): LeaderboardEntry[] {
-    return [...this.entries];
+  // Set leaderboard mode
+  setMode(mode: LeaderboardMode): void {
+    this.mode = mode;
+  }
+
+  // Get leaderboard mode
+  getMode(): LeaderboardMode {
+    return this.mode;
+  }
+
+  // Ask the server for a new run's seed, bound to the signed-in wallet so the run can be submitted.
+  // Null in local mode, when signed out or when the server can't be reached - the run then picks its
+  // own seed and can only be kept locally
+  async requestRunSeed(): Promise<IssuedRunSeed | null> {
+    if (this.mode === 'local') return null;
+    try {
+      const response = await fetch('/api/seed', { signal: AbortSignal.timeout(SEED_REQUEST_TIMEOUT) });
+      if (!response.ok) return null;
+      const data = await response.json();
+      return typeof data.seed === 'number' && typeof data.token === 'string' ? data : null;
+    } catch (error) {
+      console.warn('Failed to request a run seed:', error);
+      return null;
+    }
+  }
+
+  // Submit a finished run for server-side verification under the signed-in wallet, with the token
+  // requestRunSeed returned for its seed
+  // Verified runs replace the client's stats with the server's; when the server can't be reached or
+  // fails, the player isn't signed in, or in local mode the client's stats go into the local list only.
+  // Only a run the server refuses (a 4xx answer) is rejected outright
+  async submitRun(
+    recording: RunRecording,
+    entry: Omit<LeaderboardEntry, 'timestamp'>,
+    seedToken: string | null
+  ): Promise<SubmitResult> {
+    const offline = (): SubmitResult => {
+      this.addEntry(entry);
+      return { status: 'offline', entry: { ...entry, timestamp: Date.now() } };
+    };
+    if (this.mode === 'local') {
+      return offline();
+    }
+
+    const post = (): Promise<Response> =>
+      fetch('/api/scores', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ recording, seedToken }),
+      });
+
+    let response: Response;
+    try {
+      response = await post();
+      // The server is busy verifying other runs - try once more when it says to
+      if (response.status === 503) {
+        await new Promise((resolve) => setTimeout(resolve, getRetryDelay(response)));
+        response = await post();
+      }
+    } catch (error) {
+      console.warn('Failed to submit score:', error);
+      return offline();
+    }
+
+    const data = await response.json().catch(() => ({}));
+    if (response.status === 401) {
+      this.addEntry(entry);
+      return { status: 'unauthenticated', entry: { ...entry, timestamp: Date.now() } };
+    }
+    if (response.status >= 500) {
+      console.warn('Score submission failed:', response.status, data.error);
+      return offline();
+    }
+    if (!response.ok || !data.accepted) {
+      console.warn('Score rejected:', data.error);
+      return { status: 'rejected', entry: null };
+    }
+
+    const verifiedEntry = {
+      address: data.address,
+      mode: data.mode,
+      difficulty: data.difficulty,
+      wave: data.wave,
+      score: data.score,
+      level: data.level,
+      enemiesKilled: data.enemiesKilled,
+      accuracy: data.accuracy,
+      continues: data.continues,
+    };
+    this.addEntry(verifiedEntry);
+    return { status: 'verified', entry: { ...verifiedEntry, timestamp: data.timestamp } };
+  }
+
+  // Fetch a page of a category's global leaderboard, falling back to the local list when offline
+  async fetchLeaderboard(
+    window: LeaderboardWindow = 'all',
+    page: number = 1,
+    pageSize: number = MAX_ENTRIES,
+    category: LeaderboardCategory = DEFAULT_LEADERBOARD_CATEGORY
+  ): Promise<LeaderboardPage> {
+    if (this.mode === 'remote') {
+      try {
+        const params = new URLSearchParams({
+          window,
+          mode: category.mode,
+          difficulty: category.difficulty,
+          page: String(page),
+          pageSize: String(pageSize),
+        });
+        const response = await fetch(`/api/leaderboard?${params}`);
+        if (response.ok) {
+          return await response.json();
+        }
+        console.warn('Leaderboard request failed:', response.status);
+      } catch (error) {
+        console.warn('Failed to fetch leaderboard:', error);
+      }
+    }
+    return this.getLocalPage(window, page, pageSize, category);
+  }
+
+  // Fetch a wallet's best entry and rank on the global leaderboard (null if none or offline)
+  async fetchWalletBest(
+    wallet: string,
+    window: LeaderboardWindow = 'all',
+    category: LeaderboardCategory = DEFAULT_LEADERBOARD_CATEGORY
+  ): Promise<RankedLeaderboardEntry | null> {
+    if (this.mode === 'local') return null;
+    try {
+      const params = new URLSearchParams({
+        window,
+        mode: category.mode,
+        difficulty: category.difficulty,
+        wallet,
+      });
+      const response = await fetch(`/api/leaderboard?${params}`);
+      if (!response.ok) return null;
+      const data = await response.json();
+      return data.entry ?? null;
+    } catch (error) {
+      console.warn('Failed to fetch wallet best:', error);
+      return null;
+    }
+  }
+
+  // Local entries shaped like a global leaderboard page
+  private getLocalPage(
+    window: LeaderboardWindow,
+    page: number,
+    pageSize: number,
+    category: LeaderboardCategory
+  ): LeaderboardPage {
+    const since = getWindowStart(window);
+    const ranked = this.entries
+      .filter((entry) => entry.timestamp >= since && inCategory(entry, category))
+      .map((entry, index) => ({
+        ...entry,
+        id: `local-${entry.timestamp}`,
+        runKey: `local-${entry.timestamp}`,
+        address: entry.address ?? '',
+        rank: index + 1,
+      }));
+    return {
+      entries: ranked.slice((page - 1) * pageSize, page * pageSize),
+      total: ranked.length,
+      page,
+      pageSize,
+      window,
+      ...category,
+      offline: true,
+    };
+  }
+
+  // Get local leaderboard entries for a category
+  getLeaderboard(category: LeaderboardCategory = DEFAULT_LEADERBOARD_CATEGORY): LeaderboardEntry[] {
+    return this.entries.filter(e => inCategory(e, category));
   }
 
-  // Get rank for a score
-  getRank(score: number): number {
-    return this.entries.filter(e => e.score > score).length + 1;
+  // Get rank for a score within a category
+  getRank(score: number, category: LeaderboardCategory = DEFAULT_LEADERBOARD_CATEGORY): number {
+    return this.getLeaderboard(category).filter(e => e.score > score).length + 1;
   }
 
-  // Check if score qualifies for leaderboard
-  qualifiesForLeaderboard(score: number): boolean {
-    if (this.entries.length < MAX_ENTRIES) return true;
-    return score > this.entries[this.entries.length - 1].score;
+  // Check if score qualifies for a category's leaderboard
+  qualifiesForLeaderboard(score: number, category: LeaderboardCategory = DEFAULT_LEADERBOARD_CATEGORY): boolean {
+    const entries = this.getLeaderboard(category);
+    if (entries.length < MAX_ENTRIES) return true;
+    return score > entries[entries.length - 1].score;
   }
 
   // Clear leaderboard
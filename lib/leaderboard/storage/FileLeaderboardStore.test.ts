@@ -0,0 +1,77 @@
+// File-backed leaderboard store tests - run against a temporary directory
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FileLeaderboardStore } from './FileLeaderboardStore';
+import { GlobalLeaderboardEntry } from '../types';
+
+let directory: string;
+let filePath: string;
+
+const makeEntry = (id: string, runKey: string, score: number = 100): GlobalLeaderboardEntry => ({
+  id,
+  runKey,
+  address: `0x${id.padStart(40, '0')}`,
+  mode: 'campaign',
+  difficulty: 'normal',
+  score,
+  level: 1,
+  wave: 0,
+  enemiesKilled: 10,
+  accuracy: 50,
+  continues: 0,
+  timestamp: 1000,
+});
+
+beforeEach(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'leaderboard-'));
+  filePath = path.join(directory, 'leaderboard.json');
+});
+
+afterEach(async () => {
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+describe('FileLeaderboardStore', () => {
+  it('stores a run only once when it is submitted concurrently', async () => {
+    const store = new FileLeaderboardStore(filePath);
+
+    const results = await Promise.all([
+      store.insertIfAbsent(makeEntry('1', '42:1000')),
+      store.insertIfAbsent(makeEntry('2', '42:1000')),
+      store.insertIfAbsent(makeEntry('3', '7:500')),
+    ]);
+
+    expect(results).toEqual([true, false, true]);
+    const saved: GlobalLeaderboardEntry[] = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    expect(saved.map((entry) => entry.id)).toEqual(['1', '3']);
+    expect(await new FileLeaderboardStore(filePath).hasRun('42:1000')).toBe(true);
+  });
+
+  it('moves a corrupt file aside instead of overwriting it', async () => {
+    await fs.writeFile(filePath, '[{"id": "1", "runKey"', 'utf8');
+    const store = new FileLeaderboardStore(filePath);
+
+    expect(await store.insertIfAbsent(makeEntry('2', '9:900'))).toBe(true);
+
+    const files = await fs.readdir(directory);
+    const corrupt = files.find((file) => file.startsWith('leaderboard.json.corrupt-'));
+    expect(corrupt).toBeDefined();
+    expect(await fs.readFile(path.join(directory, corrupt!), 'utf8')).toBe('[{"id": "1", "runKey"');
+  });
+
+  it('keeps a failed write out of memory', async () => {
+    const store = new FileLeaderboardStore(filePath);
+    await store.insertIfAbsent(makeEntry('1', '1:100'));
+    // A directory where the temp file should go makes the next write fail
+    await fs.mkdir(`${filePath}.tmp`);
+
+    await expect(store.insertIfAbsent(makeEntry('2', '2:200'))).rejects.toThrow();
+    expect(await store.hasRun('2:200')).toBe(false);
+
+    await fs.rmdir(`${filePath}.tmp`);
+    expect(await store.insertIfAbsent(makeEntry('2', '2:200'))).toBe(true);
+  });
+});
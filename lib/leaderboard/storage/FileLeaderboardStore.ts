@@ -0,0 +1,149 @@
+// File-backed leaderboard store - keeps all entries in a single JSON file
+// Suitable for a single server instance; swap for a database-backed store when scaling out
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Difficulty, GameMode } from '../../game/types';
+import { GlobalLeaderboardEntry, RankedLeaderboardEntry } from '../types';
+import { LeaderboardQuery, LeaderboardStore } from './LeaderboardStore';
+
+// Higher score first, earlier submission wins ties
+const compareEntries = (a: GlobalLeaderboardEntry, b: GlobalLeaderboardEntry): number =>
+  b.score - a.score || a.timestamp - b.timestamp;
+
+export class FileLeaderboardStore implements LeaderboardStore {
+  private filePath: string;
+  private entries: GlobalLeaderboardEntry[] | null = null;
+  private loading: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  // Load entries from disk once (concurrent callers share the read), then serve from memory
+  private async load(): Promise<GlobalLeaderboardEntry[]> {
+    if (!this.loading) {
+      this.loading = this.readEntries().then(
+        (entries) => {
+          this.entries = entries;
+        },
+        (error) => {
+          this.loading = null; // Try reading again on the next call
+          throw error;
+        }
+      );
+    }
+    await this.loading;
+    return this.entries!;
+  }
+
+  // A missing file is an empty leaderboard and an unreadable one is an error. A corrupt one is moved
+  // aside so the next insert doesn't overwrite what may still be recovered from it
+  private async readEntries(): Promise<GlobalLeaderboardEntry[]> {
+    let saved: string;
+    try {
+      saved = await fs.readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    let entries: unknown;
+    try {
+      entries = JSON.parse(saved);
+    } catch {
+      entries = null;
+    }
+    if (!Array.isArray(entries)) {
+      const corruptPath = `${this.filePath}.corrupt-${Date.now()}`;
+      await fs.rename(this.filePath, corruptPath);
+      console.error(`Leaderboard file is corrupt - moved it to ${corruptPath} and starting empty`);
+      return [];
+    }
+    return entries;
+  }
+
+  // Run a change after every change queued before it, so each one sees the previous ones' result
+  private enqueue<T>(change: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(change);
+    // A failed change is reported to its caller; later ones still run
+    this.writeQueue = result.then(
+      () => undefined,
+      () => undefined
+    );
+    return result;
+  }
+
+  // Write entries to disk through a temp file - only call from a queued change
+  private async persist(entries: GlobalLeaderboardEntry[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(entries), 'utf8');
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  // Best entry per wallet within the window, mode and difficulty, ranked
+  // (entries stored before modes and difficulties existed are normal campaign runs)
+  private async ranked(since: number, mode: GameMode, difficulty: Difficulty): Promise<RankedLeaderboardEntry[]> {
+    const entries = await this.load();
+    const bestByWallet = new Map<string, GlobalLeaderboardEntry>();
+
+    entries.forEach((entry) => {
+      if (
+        entry.timestamp < since ||
+        (entry.mode ?? 'campaign') !== mode ||
+        (entry.difficulty ?? 'normal') !== difficulty
+      ) {
+        return;
+      }
+      const best = bestByWallet.get(entry.address);
+      if (!best || compareEntries(entry, best) < 0) {
+        bestByWallet.set(entry.address, entry);
+      }
+    });
+
+    return Array.from(bestByWallet.values())
+      .sort(compareEntries)
+      .map((entry, index) => ({ ...entry, rank: index + 1 }));
+  }
+
+  insertIfAbsent(entry: GlobalLeaderboardEntry): Promise<boolean> {
+    return this.enqueue(async () => {
+      const entries = await this.load();
+      if (entries.some((existing) => existing.runKey === entry.runKey)) {
+        return false;
+      }
+      // Memory only changes once the write has succeeded, so it never serves an entry that isn't on disk
+      const updated = [...entries, entry];
+      await this.persist(updated);
+      this.entries = updated;
+      return true;
+    });
+  }
+
+  async hasRun(runKey: string): Promise<boolean> {
+    const entries = await this.load();
+    return entries.some((entry) => entry.runKey === runKey);
+  }
+
+  async query(query: LeaderboardQuery): Promise<{ entries: RankedLeaderboardEntry[]; total: number }> {
+    const ranked = await this.ranked(query.since, query.mode, query.difficulty);
+    return {
+      entries: ranked.slice(query.offset, query.offset + query.limit),
+      total: ranked.length,
+    };
+  }
+
+  async findBestForWallet(
+    wallet: string,
+    since: number,
+    mode: GameMode,
+    difficulty: Difficulty
+  ): Promise<RankedLeaderboardEntry | null> {
+    const ranked = await this.ranked(since, mode, difficulty);
+    return ranked.find((entry) => entry.address === wallet.toLowerCase()) ?? null;
+  }
+}
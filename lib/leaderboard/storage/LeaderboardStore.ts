@@ -0,0 +1,32 @@
+// Leaderboard storage adapter - implement this to back the global leaderboard with another database
+
+import { Difficulty, GameMode } from '../../game/types';
+import { GlobalLeaderboardEntry, RankedLeaderboardEntry } from '../types';
+
+export interface LeaderboardQuery {
+  since: number; // Only include entries at or after this timestamp
+  mode: GameMode;
+  difficulty: Difficulty;
+  offset: number;
+  limit: number;
+}
+
+export interface LeaderboardStore {
+  // Persist a verified entry unless its run is already stored - returns whether it was inserted.
+  // The check and the insert must be atomic, so concurrent submissions of one run store it once
+  insertIfAbsent(entry: GlobalLeaderboardEntry): Promise<boolean>;
+
+  // Whether a run has already been submitted (a cheap early check - insertIfAbsent has the final say)
+  hasRun(runKey: string): Promise<boolean>;
+
+  // Ranked entries, keeping only each wallet's best score
+  query(query: LeaderboardQuery): Promise<{ entries: RankedLeaderboardEntry[]; total: number }>;
+
+  // A wallet's best entry and its rank within the window, mode and difficulty, or null if it has none
+  findBestForWallet(
+    wallet: string,
+    since: number,
+    mode: GameMode,
+    difficulty: Difficulty
+  ): Promise<RankedLeaderboardEntry | null>;
+}
@@ -0,0 +1,23 @@
+// Leaderboard store selection - server-side only
+
+import path from 'path';
+import { LeaderboardStore } from './LeaderboardStore';
+import { FileLeaderboardStore } from './FileLeaderboardStore';
+
+let store: LeaderboardStore | null = null;
+
+// Get the configured store (LEADERBOARD_FILE overrides the default file location)
+export function getLeaderboardStore(): LeaderboardStore {
+  if (!store) {
+    const filePath = process.env.LEADERBOARD_FILE || path.join(process.cwd(), '.data', 'leaderboard.json');
+    store = new FileLeaderboardStore(filePath);
+  }
+  return store;
+}
+
+// Replace the store (e.g. with a database-backed implementation)
+export function setLeaderboardStore(newStore: LeaderboardStore): void {
+  store = newStore;
+}
+
+export type { LeaderboardStore, LeaderboardQuery } from './LeaderboardStore';
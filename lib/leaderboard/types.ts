@@ -0,0 +1,64 @@
+// Shared leaderboard types used by the API routes and the client
+
+import { Difficulty, GameMode } from '../game/types';
+
+export type LeaderboardWindow = 'daily' | 'weekly' | 'all';
+
+export const LEADERBOARD_WINDOWS: LeaderboardWindow[] = ['daily', 'weekly', 'all'];
+
+// Runs only compete with runs of the same mode and difficulty
+export interface LeaderboardCategory {
+  mode: GameMode;
+  difficulty: Difficulty;
+}
+
+export const DEFAULT_LEADERBOARD_CATEGORY: LeaderboardCategory = { mode: 'campaign', difficulty: 'normal' };
+
+// A verified score on the global leaderboard
+export interface GlobalLeaderboardEntry {
+  id: string;
+  runKey: string; // Identifies the recorded run so it can only be submitted once
+  address: string; // Lowercased wallet address, verified by Sign-In With Ethereum
+  mode: GameMode; // Each mode and difficulty has its own leaderboard
+  difficulty: Difficulty;
+  score: number;
+  level: number;
+  wave: number; // Endless wave reached (0 for campaign runs)
+  enemiesKilled: number;
+  accuracy: number;
+  continues: number; // Continued runs are marked on the leaderboard
+  timestamp: number;
+}
+
+// A run seed issued by the server, and the signed token that proves it was issued to this wallet
+export interface IssuedRunSeed {
+  seed: number;
+  token: string;
+}
+
+export interface RankedLeaderboardEntry extends GlobalLeaderboardEntry {
+  rank: number;
+}
+
+export interface LeaderboardPage {
+  entries: RankedLeaderboardEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+  window: LeaderboardWindow;
+  mode: GameMode;
+  difficulty: Difficulty;
+  offline?: boolean; // True when served from the local fallback list
+}
+
+// Start of a leaderboard window in ms since epoch
+export function getWindowStart(window: LeaderboardWindow, now: number = Date.now()): number {
+  switch (window) {
+    case 'daily':
+      return now - 24 * 60 * 60 * 1000;
+    case 'weekly':
+      return now - 7 * 24 * 60 * 60 * 1000;
+    case 'all':
+      return 0;
+  }
+}
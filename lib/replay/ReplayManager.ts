@@ -0,0 +1,71 @@
+// Replay Manager - stores recent run recordings locally
+
+import { RunRecording } from '../game/InputLog';
+
+const MAX_RUNS = 5;
+
+export class ReplayManager {
+  private runs: RunRecording[] = [];
+
+  constructor() {
+    this.loadRuns();
+  }
+
+  // Load runs from localStorage
+  private loadRuns(): void {
+    if (typeof window !== 'undefined') {
+      const saved = localStorage.getItem('base-shooter-replays');
+      if (saved) {
+        try {
+          this.runs = JSON.parse(saved);
+        } catch (e) {
+          console.warn('Failed to load replays:', e);
+          this.runs = [];
+        }
+      }
+    }
+  }
+
+  // Save runs to localStorage
+  private saveRuns(): void {
+    if (typeof window !== 'undefined') {
+      try {
+        localStorage.setItem('base-shooter-replays', JSON.stringify(this.runs));
+      } catch (e) {
+        // Quota exceeded - keep the in-memory list for this session
+        console.warn('Failed to save replays:', e);
+      }
+    }
+  }
+
+  // Add a finished run (newest first, keeps the most recent MAX_RUNS)
+  saveRun(recording: RunRecording): void {
+    const isDuplicate = this.runs.some(
+      (run) => run.seed === recording.seed && run.ticks === recording.ticks
+    );
+    if (isDuplicate) return;
+
+    this.runs.unshift(recording);
+    this.runs = this.runs.slice(0, MAX_RUNS);
+    this.saveRuns();
+  }
+
+  // Get stored runs, newest first
+  getRuns(): RunRecording[] {
+    return [...this.runs];
+  }
+
+  // Get the most recent run
+  getLatest(): RunRecording | null {
+    return this.runs[0] ?? null;
+  }
+
+  // Clear stored runs
+  clear(): void {
+    this.runs = [];
+    this.saveRuns();
+  }
+}
+
+// Singleton instance
+export const replayManager = new ReplayManager();
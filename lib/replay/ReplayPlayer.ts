@@ -0,0 +1,63 @@
+// Replay player - re-simulates a recorded run tick by tick through GameEngine
+
+import { GameEngine, SIMULATION_VERSION } from '../game/GameEngine';
+import { InputLog, RunRecording } from '../game/InputLog';
+import { FrameInput } from '../game/types';
+
+export class ReplayPlayer {
+  public engine: GameEngine;
+  private recording: RunRecording;
+  private frames: FrameInput[];
+  private tick: number = 0;
+
+  constructor(recording: RunRecording) {
+    this.recording = recording;
+    this.frames = InputLog.decode(recording.inputs).toFrames();
+    this.engine = this.createEngine();
+  }
+
+  private createEngine(): GameEngine {
+    return new GameEngine({
+      seed: this.recording.seed,
+      mode: this.recording.mode,
+      difficulty: this.recording.difficulty,
+      movement: this.recording.movement,
+      playArea: this.recording.playArea,
+    });
+  }
+
+  // Whether this build can reproduce the recording faithfully
+  isCompatible(): boolean {
+    return this.recording.version === SIMULATION_VERSION;
+  }
+
+  get currentTick(): number {
+    return this.tick;
+  }
+
+  get totalTicks(): number {
+    return this.frames.length;
+  }
+
+  isFinished(): boolean {
+    return this.tick >= this.frames.length;
+  }
+
+  // Step forward through the recorded inputs
+  advance(ticks: number = 1): void {
+    for (let i = 0; i < ticks && !this.isFinished(); i++) {
+      this.engine.step(this.frames[this.tick]);
+      this.tick++;
+    }
+  }
+
+  // Jump to a tick - seeking backwards re-simulates from the start
+  seek(targetTick: number): void {
+    const target = Math.max(0, Math.min(this.frames.length, Math.floor(targetTick)));
+    if (target < this.tick) {
+      this.engine = this.createEngine();
+      this.tick = 0;
+    }
+    this.advance(target - this.tick);
+  }
+}
@@ -0,0 +1,194 @@
+// Run verification - re-simulates a submitted recording and computes its score server-side
+// The submitted score is never trusted; it only has to match what the simulation produces
+
+import { GameEngine, SIMULATION_VERSION } from '../game/GameEngine';
+import { InputLog, RunRecording } from '../game/InputLog';
+import { FIXED_TIMESTEP } from '../game/timing';
+import { WORLD_HEIGHT, WORLD_WIDTH } from '../game/world';
+import {
+  DIFFICULTIES,
+  Difficulty,
+  GAME_MODES,
+  GameMode,
+  PLAYER_MOVEMENT_MODES,
+  PlayArea,
+  PlayerMovementMode,
+} from '../game/types';
+
+// Longest run we are willing to simulate (10 minutes of campaign, 30 of endless)
+const MAX_RUN_TICKS: Record<GameMode, number> = {
+  campaign: Math.ceil((10 * 60 * 1000) / FIXED_TIMESTEP),
+  endless: Math.ceil((30 * 60 * 1000) / FIXED_TIMESTEP),
+};
+const MIN_PLAY_AREA_SIZE = 0.1; // Fraction of the canvas
+const TICKS_PER_SLICE = 500; // Ticks simulated between yields to the event loop in verifyRunInSlices
+
+export interface VerifiedRun {
+  mode: GameMode;
+  difficulty: Difficulty;
+  seed: number;
+  ticks: number;
+  score: number;
+  level: number;
+  wave: number;
+  enemiesKilled: number;
+  accuracy: number; // Percentage of shots that hit
+  continues: number; // Times the run was continued from a level checkpoint
+}
+
+export type VerificationResult =
+  | { ok: true; run: VerifiedRun }
+  | { ok: false; reason: string };
+
+const isInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value);
+
+const isFraction = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1;
+
+// A play area inside the canvas and big enough to fly in
+const isPlayArea = (value: unknown): value is PlayArea => {
+  if (!value || typeof value !== 'object') return false;
+  const { x, y, width, height } = value as Record<string, unknown>;
+  return (
+    isFraction(x) && isFraction(y) && isFraction(width) && isFraction(height) &&
+    width >= MIN_PLAY_AREA_SIZE && height >= MIN_PLAY_AREA_SIZE &&
+    x + width <= 1 && y + height <= 1
+  );
+};
+
+// Validate the shape of an untrusted recording - returns null if malformed
+export function parseRunRecording(body: unknown): RunRecording | null {
+  if (!body || typeof body !== 'object') return null;
+  const data = body as Record<string, unknown>;
+
+  if (
+    !isInteger(data.version) ||
+    !GAME_MODES.includes(data.mode as GameMode) ||
+    !DIFFICULTIES.includes(data.difficulty as Difficulty) ||
+    !PLAYER_MOVEMENT_MODES.includes(data.movement as PlayerMovementMode) ||
+    !isPlayArea(data.playArea) ||
+    !isInteger(data.seed) || data.seed < 0 || data.seed > 0xffffffff ||
+    !isInteger(data.width) ||
+    !isInteger(data.height) ||
+    !isInteger(data.ticks) || data.ticks < 0 ||
+    typeof data.inputs !== 'string' ||
+    !isInteger(data.score) ||
+    !isInteger(data.level) ||
+    !isInteger(data.wave)
+  ) {
+    return null;
+  }
+
+  return {
+    version: data.version,
+    mode: data.mode as GameMode,
+    difficulty: data.difficulty as Difficulty,
+    movement: data.movement as PlayerMovementMode,
+    playArea: { x: data.playArea.x, y: data.playArea.y, width: data.playArea.width, height: data.playArea.height },
+    seed: data.seed,
+    width: data.width,
+    height: data.height,
+    ticks: data.ticks,
+    inputs: data.inputs,
+    score: data.score,
+    level: data.level,
+    wave: data.wave,
+    recordedAt: isInteger(data.recordedAt) ? data.recordedAt : Date.now(),
+  };
+}
+
+// Re-simulate a recording headlessly and check it describes a real, finished run
+export function verifyRun(recording: RunRecording): VerificationResult {
+  const verification = verifySlices(recording);
+  let next = verification.next();
+  while (!next.done) {
+    next = verification.next();
+  }
+  return next.value;
+}
+
+// Same as verifyRun, but hands the event loop back between slices of the simulation so a long
+// run doesn't stall every other request the server is handling
+export async function verifyRunInSlices(recording: RunRecording): Promise<VerificationResult> {
+  const verification = verifySlices(recording);
+  let next = verification.next();
+  while (!next.done) {
+    await new Promise<void>((resolve) => setImmediate(resolve));
+    next = verification.next();
+  }
+  return next.value;
+}
+
+// The verification itself, pausing after every TICKS_PER_SLICE ticks
+function* verifySlices(recording: RunRecording): Generator<void, VerificationResult> {
+  if (recording.version !== SIMULATION_VERSION) {
+    return { ok: false, reason: `Unsupported simulation version ${recording.version}` };
+  }
+  if (recording.ticks === 0 || recording.ticks > MAX_RUN_TICKS[recording.mode]) {
+    return { ok: false, reason: 'Run length out of range' };
+  }
+  if (recording.width !== WORLD_WIDTH || recording.height !== WORLD_HEIGHT) {
+    return { ok: false, reason: `Play field must be ${WORLD_WIDTH}x${WORLD_HEIGHT}` };
+  }
+
+  let log: InputLog;
+  try {
+    log = InputLog.decode(recording.inputs);
+  } catch (error: any) {
+    return { ok: false, reason: error.message };
+  }
+  if (log.length !== recording.ticks) {
+    return { ok: false, reason: 'Input log length does not match tick count' };
+  }
+
+  const engine = new GameEngine({
+    seed: recording.seed,
+    mode: recording.mode,
+    difficulty: recording.difficulty,
+    movement: recording.movement,
+    playArea: recording.playArea,
+    headless: true,
+  });
+
+  const frames = log.toFrames();
+  for (let tick = 0; tick < frames.length; tick++) {
+    const frame = frames[tick];
+    if (engine.gameState.isGameOver && !(frame.continue && engine.canContinue())) {
+      // Inputs after the game ended can't have come from a real client, unless they spend a continue
+      return { ok: false, reason: `Run ended at tick ${tick} but input continues` };
+    }
+    if (frame.continue && !engine.gameState.isGameOver) {
+      return { ok: false, reason: `Continue at tick ${tick} while the run was still in progress` };
+    }
+    engine.step(frame);
+    if ((tick + 1) % TICKS_PER_SLICE === 0) {
+      yield;
+    }
+  }
+
+  if (!engine.gameState.isGameOver) {
+    return { ok: false, reason: 'Run did not finish' };
+  }
+
+  const { score, level, wave, enemiesKilled, bulletsShot, bulletsHit, continues } = engine.gameState;
+  if (score !== recording.score) {
+    return { ok: false, reason: `Submitted score ${recording.score} does not match simulated score ${score}` };
+  }
+
+  return {
+    ok: true,
+    run: {
+      mode: recording.mode,
+      difficulty: recording.difficulty,
+      seed: recording.seed,
+      ticks: frames.length,
+      score,
+      level,
+      wave,
+      enemiesKilled,
+      accuracy: bulletsShot > 0 ? Math.round((bulletsHit / bulletsShot) * 100) : 0,
+      continues,
+    },
+  };
+}
@@ -1,14 +1,33 @@
 // Settings Manager - handles game settings
 
-import { GameSettings } from '../game/types';
+import { GameSettings, KeyBindings } from '../game/types';
 import { soundManager } from '../audio/SoundManager';
 
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  up: ['ArrowUp', 'w'],
+  down: ['ArrowDown', 's'],
+  left: ['ArrowLeft', 'a'],
+  right: ['ArrowRight', 'd'],
+  shoot: ['z'],
+  charge: [' '],
+  bomb: ['b'],
+  pause: ['p', 'Escape'],
+  confirm: ['Enter'],
+};
+
 const DEFAULT_SETTINGS: GameSettings = {
   soundEnabled: true,
   musicEnabled: true,
   soundVolume: 0.7,
   musicVolume: 0.3,
   difficulty: 'normal',
+  movementMode: 'vertical',
+  keyBindings: DEFAULT_KEY_BINDINGS,
+  gamepadDeadzone: 0.2,
+  gamepadRumble: true,
+  touchControls: 'buttons',
+  touchDragMode: 'relative',
+  autoFire: false,
   showFPS: false,
 };
 
@@ -26,7 +45,13 @@ export class SettingsManager {
       const saved = localStorage.getItem('base-shooter-settings');
       if (saved) {
         try {
-          return { ...DEFAULT_SETTINGS, ...JSON.parse(saved) };
+          const parsed = JSON.parse(saved);
+          // Actions added since the bindings were saved get their default keys
+          return {
+            ...DEFAULT_SETTINGS,
+            ...parsed,
+            keyBindings: { ...DEFAULT_KEY_BINDINGS, ...parsed.keyBindings },
+          };
         } catch (e) {
           console.warn('Failed to load settings:', e);
         }
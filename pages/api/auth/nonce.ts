@@ -0,0 +1,14 @@
+// Sign-In With Ethereum - issues a one-time nonce for the client to include in its message
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { issueNonce } from '@/lib/auth/session';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  res.setHeader('Cache-Control', 'no-store');
+  return res.status(200).json({ nonce: await issueNonce(res) });
+}
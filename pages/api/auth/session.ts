@@ -0,0 +1,19 @@
+// Sign-In With Ethereum - reads (GET) or ends (DELETE) the current session
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { destroySession, getSessionAddress } from '@/lib/auth/session';
+
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === 'GET') {
+    res.setHeader('Cache-Control', 'no-store');
+    return res.status(200).json({ address: getSessionAddress(req) });
+  }
+
+  if (req.method === 'DELETE') {
+    destroySession(res);
+    return res.status(200).json({ address: null });
+  }
+
+  res.setHeader('Allow', 'GET, DELETE');
+  return res.status(405).json({ error: 'Method not allowed' });
+}
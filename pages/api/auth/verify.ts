@@ -0,0 +1,89 @@
+// Sign-In With Ethereum - checks a signed EIP-4361 message and starts a session
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { ethers } from 'ethers';
+import { parseSiweMessage } from '@/lib/auth/siwe';
+import { consumeNonce, createSession, getIssuedNonce } from '@/lib/auth/session';
+import { BASE_CHAIN_ID, BASE_CHAIN_ID_TESTNET } from '@/lib/blockchain/wallet';
+
+const MAX_MESSAGE_AGE = 10 * 60 * 1000; // Matches the nonce lifetime
+const MAX_CLOCK_SKEW = 60 * 1000;
+
+// Origin the client sees this site at - behind a proxy the forwarded protocol says whether it is https
+const getRequestOrigin = (req: NextApiRequest): string => {
+  const forwarded = req.headers['x-forwarded-proto'];
+  const protocol =
+    (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim() ||
+    (process.env.NODE_ENV === 'production' ? 'https' : 'http');
+  return `${protocol}://${req.headers.host}`;
+};
+
+// Origin of the message's URI, or null if it isn't a valid URL
+const getUriOrigin = (uri: string): string | null => {
+  try {
+    return new URL(uri).origin;
+  } catch {
+    return null;
+  }
+};
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { message, signature } = req.body ?? {};
+  if (typeof message !== 'string' || typeof signature !== 'string') {
+    return res.status(400).json({ error: 'Missing message or signature' });
+  }
+
+  const siwe = parseSiweMessage(message);
+  if (!siwe) {
+    return res.status(400).json({ error: 'Malformed sign-in message' });
+  }
+
+  // The message must be bound to this site, this client's nonce and a Base network
+  if (siwe.domain !== req.headers.host) {
+    return res.status(401).json({ error: 'Sign-in message is for a different domain' });
+  }
+  if (getUriOrigin(siwe.uri) !== getRequestOrigin(req)) {
+    return res.status(401).json({ error: 'Sign-in message is for a different site' });
+  }
+  const nonce = await getIssuedNonce(req);
+  if (!nonce || siwe.nonce !== nonce) {
+    return res.status(401).json({ error: 'Invalid or expired nonce' });
+  }
+  if (siwe.chainId !== BASE_CHAIN_ID && siwe.chainId !== BASE_CHAIN_ID_TESTNET) {
+    return res.status(401).json({ error: 'Unsupported chain' });
+  }
+
+  const now = Date.now();
+  const issuedAt = Date.parse(siwe.issuedAt);
+  if (Number.isNaN(issuedAt) || issuedAt > now + MAX_CLOCK_SKEW || now - issuedAt > MAX_MESSAGE_AGE) {
+    return res.status(401).json({ error: 'Sign-in message has expired' });
+  }
+  if (siwe.expirationTime) {
+    const expiresAt = Date.parse(siwe.expirationTime);
+    if (Number.isNaN(expiresAt) || expiresAt <= now) {
+      return res.status(401).json({ error: 'Sign-in message has expired' });
+    }
+  }
+
+  let signer: string;
+  try {
+    signer = ethers.verifyMessage(message, signature);
+  } catch {
+    return res.status(400).json({ error: 'Malformed signature' });
+  }
+  if (signer.toLowerCase() !== siwe.address.toLowerCase()) {
+    return res.status(401).json({ error: 'Signature does not match address' });
+  }
+
+  // Only now is the nonce used up, so a failed attempt doesn't lock the client out of retrying
+  if (!(await consumeNonce(nonce))) {
+    return res.status(401).json({ error: 'Invalid or expired nonce' });
+  }
+  createSession(res, signer);
+  return res.status(200).json({ address: signer.toLowerCase() });
+}
@@ -0,0 +1,66 @@
+// Global leaderboard API - paginated rankings per game mode, difficulty and time window, and per-wallet bests
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { ethers } from 'ethers';
+import { getLeaderboardStore } from '@/lib/leaderboard/storage';
+import { LEADERBOARD_WINDOWS, LeaderboardPage, LeaderboardWindow, getWindowStart } from '@/lib/leaderboard/types';
+import { DIFFICULTIES, Difficulty, GAME_MODES, GameMode } from '@/lib/game/types';
+
+const DEFAULT_PAGE_SIZE = 10;
+const MAX_PAGE_SIZE = 100;
+
+// Read a positive integer query parameter
+const parsePositiveInt = (value: string | string[] | undefined, fallback: number): number => {
+  const parsed = parseInt(Array.isArray(value) ? value[0] : value ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const window = (req.query.window ?? 'all') as LeaderboardWindow;
+  if (!LEADERBOARD_WINDOWS.includes(window)) {
+    return res.status(400).json({ error: `window must be one of ${LEADERBOARD_WINDOWS.join(', ')}` });
+  }
+  const mode = (req.query.mode ?? 'campaign') as GameMode;
+  if (!GAME_MODES.includes(mode)) {
+    return res.status(400).json({ error: `mode must be one of ${GAME_MODES.join(', ')}` });
+  }
+  const difficulty = (req.query.difficulty ?? 'normal') as Difficulty;
+  if (!DIFFICULTIES.includes(difficulty)) {
+    return res.status(400).json({ error: `difficulty must be one of ${DIFFICULTIES.join(', ')}` });
+  }
+  const since = getWindowStart(window);
+  const store = getLeaderboardStore();
+
+  try {
+    // Single wallet's best score and rank
+    const { wallet } = req.query;
+    if (wallet !== undefined) {
+      if (typeof wallet !== 'string' || !ethers.isAddress(wallet)) {
+        return res.status(400).json({ error: 'Invalid wallet address' });
+      }
+      const entry = await store.findBestForWallet(wallet, since, mode, difficulty);
+      return res.status(200).json({ window, mode, difficulty, entry });
+    }
+
+    const page = parsePositiveInt(req.query.page, 1);
+    const pageSize = Math.min(parsePositiveInt(req.query.pageSize, DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+    const { entries, total } = await store.query({
+      since,
+      mode,
+      difficulty,
+      offset: (page - 1) * pageSize,
+      limit: pageSize,
+    });
+
+    const body: LeaderboardPage = { entries, total, page, pageSize, window, mode, difficulty };
+    return res.status(200).json(body);
+  } catch (error) {
+    console.error('Failed to read leaderboard:', error);
+    return res.status(500).json({ error: 'Failed to read leaderboard' });
+  }
+}
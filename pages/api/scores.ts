@@ -0,0 +1,96 @@
+// Score submission API - accepts a run recording from a signed-in wallet, played on a seed the
+// server issued to that wallet, re-simulates it and records the computed score under the wallet's verified address
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { randomUUID } from 'crypto';
+import { VerificationResult, parseRunRecording, verifyRunInSlices } from '@/lib/replay/verifyRun';
+import { getLeaderboardStore } from '@/lib/leaderboard/storage';
+import { GlobalLeaderboardEntry } from '@/lib/leaderboard/types';
+import { getIssuedRunSeed, getSessionAddress } from '@/lib/auth/session';
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '256kb',
+    },
+  },
+};
+
+const MAX_CONCURRENT_VERIFICATIONS = 2; // Re-simulations in progress at once - further submissions are turned away
+const RETRY_AFTER = 5; // Seconds a turned-away client should wait before resubmitting
+
+let activeVerifications = 0;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const address = getSessionAddress(req);
+  if (!address) {
+    return res.status(401).json({ accepted: false, error: 'Sign in with your wallet to submit scores' });
+  }
+
+  const recording = parseRunRecording(req.body?.recording);
+  if (!recording) {
+    return res.status(400).json({ error: 'Malformed run recording' });
+  }
+
+  const seed = getIssuedRunSeed(req.body?.seedToken, address);
+  if (seed === null || recording.seed !== seed) {
+    return res.status(403).json({ accepted: false, error: 'Run was not played on a seed issued to this wallet' });
+  }
+
+  // Each issued seed scores once, however the recording is altered
+  const store = getLeaderboardStore();
+  const runKey = `${address}:${seed}`;
+  if (await store.hasRun(runKey)) {
+    return res.status(409).json({ accepted: false, error: 'Run already submitted' });
+  }
+
+  if (activeVerifications >= MAX_CONCURRENT_VERIFICATIONS) {
+    res.setHeader('Retry-After', String(RETRY_AFTER));
+    return res.status(503).json({ accepted: false, error: 'Server busy verifying runs, try again shortly' });
+  }
+
+  activeVerifications++;
+  let result: VerificationResult;
+  try {
+    result = await verifyRunInSlices(recording);
+  } finally {
+    activeVerifications--;
+  }
+  if (!result.ok) {
+    return res.status(422).json({ accepted: false, error: result.reason });
+  }
+
+  const entry: GlobalLeaderboardEntry = {
+    id: randomUUID(),
+    runKey,
+    address,
+    mode: result.run.mode,
+    difficulty: result.run.difficulty,
+    score: result.run.score,
+    level: result.run.level,
+    wave: result.run.wave,
+    enemiesKilled: result.run.enemiesKilled,
+    accuracy: result.run.accuracy,
+    continues: result.run.continues,
+    timestamp: Date.now(),
+  };
+
+  let inserted: boolean;
+  try {
+    inserted = await store.insertIfAbsent(entry);
+  } catch (error) {
+    console.error('Failed to store score:', error);
+    return res.status(500).json({ accepted: false, error: 'Failed to store score' });
+  }
+  if (!inserted) {
+    // Another submission of the same run was stored while this one was being verified
+    return res.status(409).json({ accepted: false, error: 'Run already submitted' });
+  }
+
+  return res.status(200).json({ accepted: true, ...entry });
+}
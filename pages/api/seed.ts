@@ -0,0 +1,19 @@
+// Run seed API - issues the seed for a new run, bound to the signed-in wallet so the run's score can be submitted
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getSessionAddress, issueRunSeed } from '@/lib/auth/session';
+
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const address = getSessionAddress(req);
+  if (!address) {
+    return res.status(401).json({ error: 'Sign in with your wallet to play a ranked run' });
+  }
+
+  res.setHeader('Cache-Control', 'no-store');
+  return res.status(200).json(issueRunSeed(address));
+}